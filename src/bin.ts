@@ -8,6 +8,26 @@ process.on("unhandledRejection", (reason) => handleStartupError(reason));
 void main().catch(handleStartupError);
 
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv.includes("--stop-daemon")) {
+    const { stopDefaultDaemon } = await import("./daemon/client.js");
+    await stopDefaultDaemon();
+    return;
+  }
+  if (argv.includes("--use-daemon")) {
+    const forwarded = argv.filter((arg) => arg !== "--use-daemon");
+    const { runThroughDaemon } = await import("./daemon/client.js");
+    const code = await runThroughDaemon(forwarded, process.argv[1]);
+    if (code !== null) {
+      if (code !== 0) {
+        process.exitCode = code;
+      }
+      return;
+    }
+    debug("daemon unavailable, formatting in-process");
+    process.argv = [...process.argv.slice(0, 2), ...forwarded];
+  }
+
   debug("booting CLI");
   const { runCli } = await import("./cli.js");
   debug("cli module loaded");
@@ -3,24 +3,167 @@ import path from "path";
 import { fileURLToPath } from "url";
 import type {
   FormatSegment,
+  FormatterDiagnostic,
   FormatterResult,
   FormatterConfigInput,
 } from "./formatter/index.js";
 import { formatERB } from "./formatter/index.js";
+import { formatERBRange, type FormatRange } from "./formatter/range.js";
+import {
+  DEFAULT_IDLE_TIMEOUT_MS,
+  resolveSocketPath,
+} from "./daemon/protocol.js";
+import { runThroughDaemon, stopDefaultDaemon } from "./daemon/client.js";
+import { runDaemon } from "./daemon/server.js";
+import { runLanguageServer } from "./lsp/server.js";
 import type { ERBRegion, ParsedERB, RubyRegion } from "./parser.js";
-import { parseERB } from "./parser.js";
+import { createParserSession } from "./parser.js";
+import {
+  createConfigLocator,
+  type ConfigLocator,
+} from "./utils/configDiscovery.js";
+import {
+  CACHE_STRATEGIES,
+  DEFAULT_CACHE_LOCATION,
+  loadFormatCache,
+  type CacheStrategy,
+  type FormatCache,
+} from "./utils/cache.js";
+import { createUnifiedDiff } from "./utils/diff.js";
+import {
+  changesConflict,
+  listChangedFiles,
+  listStagedFiles,
+  readStagedContent,
+  writeStagedContent,
+  type StagedFile,
+} from "./utils/git.js";
+import {
+  createIgnoreMatcher,
+  DEFAULT_IGNORE_PATTERNS,
+  IGNORE_FILE_NAME,
+  loadIgnoreFile,
+  parseIgnorePatterns,
+  type IgnoreMatcher,
+  type IgnoreRuleSet,
+} from "./utils/ignore.js";
 import { printTree } from "./utils/printTree.js";
+import {
+  formatJsonReport,
+  formatSarifReport,
+  REPORTER_NAMES,
+  type FileReport,
+  type ReporterName,
+} from "./utils/reporters.js";
+import type { FormatTask, FormatTaskResult } from "./workers/formatTask.js";
+import { defaultJobCount, formatInWorkers } from "./workers/pool.js";
+
+type LogLevel = "quiet" | "normal" | "verbose";
+
+/** Span requested with `--range-start`/`--range-end` (UTF-8 bytes) or `--lines` (1-based, inclusive). */
+type RangeRequest =
+  | { unit: "bytes"; start: number | undefined; end: number | undefined }
+  | { unit: "lines"; start: number; end: number };
 
 interface CliOptions {
   showTree: boolean;
   showFormatted: boolean;
   showSegments: boolean;
+  /** Print the parsed region dump (`--regions`, implied by `--verbose`). */
+  showRegions: boolean;
+  logLevel: LogLevel;
+  /** Output format; `json` and `sarif` print one report to stdout at the end. */
+  reporter: ReporterName;
   write: boolean;
+  check: boolean;
+  diff: boolean;
+  diffContext: number;
+  color: boolean;
   targets: string[];
+  /** Read a single template from stdin (`--stdin` or a `-` target). */
+  stdin: boolean;
+  /** Logical path of the stdin buffer, used for config, ignores, and messages. */
+  stdinFilepath: string | undefined;
+  /** Overrides from `--config-file` and `--config`; applied after discovered configs. */
   config: FormatterConfigInput | undefined;
+  /** Whether to look for config files next to each target (disabled by `--no-config`). */
+  discoverConfig: boolean;
+  /** Default exclusions, ignore files, and `--exclude` globs combined. */
+  ignore: IgnoreMatcher;
+  /** Only reformat this part of a single template. */
+  range: RangeRequest | undefined;
+  /** Worker threads for multi-file runs (`--jobs`); defaults to the CPU count. */
+  jobs: number | undefined;
+  /** Skip files recorded as formatted in this cache (`--cache`). */
+  cache: { location: string; strategy: CacheStrategy } | undefined;
+  /** Only format files changed in git (`--changed`, or since a revision with `--since`). */
+  gitChanges: { since: string | undefined } | undefined;
+  /** Format the staged content of changed files in the git index (`--staged`). */
+  staged: boolean;
 }
 
-async function runCli(argv: string[] = process.argv.slice(2)): Promise<number> {
+/** Exit code reported by `--check`/`--diff` when at least one file needs formatting. */
+const CHECK_FAILURE_EXIT_CODE = 4;
+
+/**
+ * Parsers shared by every run in this process, which the daemon keeps alive
+ * between requests. Each parse is released once its file has been reported.
+ */
+const parsers = createParserSession();
+
+/**
+ * What happened to one target: a failure with its exit code and message, or
+ * the formatted text. Files formatted on a worker have no segments or tree.
+ */
+type FileOutcome =
+  | { status: "failed"; exitCode: number; message: string }
+  | {
+      status: "formatted";
+      source: string;
+      output: string;
+      diagnostics: FormatterDiagnostic[];
+      segments: FormatSegment[];
+      parsed: ParsedERB | null;
+      config: FormatterConfigInput | undefined;
+    };
+
+/** A target that was read and configured but still has to be formatted. */
+interface PreparedFile {
+  source: string;
+  config: FormatterConfigInput | undefined;
+}
+
+interface CheckSummary {
+  checked: number;
+  unformatted: string[];
+  errored: number;
+}
+
+async function runCli(
+  argv: string[] = process.argv.slice(2),
+  stdin: NodeJS.ReadableStream = process.stdin,
+): Promise<number> {
+  if (argv[0] === "lsp") {
+    return runLspCommand(argv.slice(1), stdin);
+  }
+
+  if (argv.includes("--daemon")) {
+    return runDaemonCommand(argv);
+  }
+
+  if (argv.includes("--stop-daemon")) {
+    await stopDefaultDaemon();
+    return 0;
+  }
+
+  if (argv.includes("--use-daemon")) {
+    argv = argv.filter((arg) => arg !== "--use-daemon");
+    const code = await runThroughDaemon(argv, process.argv[1]);
+    if (code !== null) {
+      return code;
+    }
+  }
+
   const options = parseCliArguments(argv);
 
   if (!options) {
@@ -28,7 +171,41 @@ async function runCli(argv: string[] = process.argv.slice(2)): Promise<number> {
     return 0;
   }
 
-  const { files: targetFiles, missing } = resolveTargetFiles(options.targets);
+  if (options.stdin) {
+    return formatStdin(options, await readStream(stdin));
+  }
+
+  if (options.staged) {
+    return formatStagedFiles(options);
+  }
+
+  let targets = options.targets;
+  if (options.gitChanges) {
+    try {
+      targets = limitToTargets(
+        listChangedFiles(process.cwd(), options.gitChanges.since),
+        options.targets,
+        options.ignore,
+      );
+    } catch (error) {
+      const flag =
+        options.gitChanges.since === undefined ? "--changed" : "--since";
+      console.error(`error: ${flag}: ${(error as Error).message}`);
+      return 2;
+    }
+    if (targets.length === 0) {
+      if (options.logLevel !== "quiet") {
+        console.log("No changed templates to format");
+      }
+      return 0;
+    }
+  }
+
+  const {
+    files: targetFiles,
+    missing,
+    ignored,
+  } = resolveTargetFiles(targets, options.ignore);
 
   if (missing.length > 0) {
     missing.forEach((pattern) => {
@@ -36,6 +213,16 @@ async function runCli(argv: string[] = process.argv.slice(2)): Promise<number> {
     });
   }
 
+  ignored.forEach((filePath) => {
+    console.warn(
+      `notice: skipping ignored file ${formatDisplayPath(filePath)}`,
+    );
+  });
+
+  if (targetFiles.length === 0 && ignored.length > 0) {
+    return 0;
+  }
+
   if (targetFiles.length === 0) {
     console.error(
       "error: no input files matched the provided paths or globs (expected *.erb)",
@@ -43,82 +230,171 @@ async function runCli(argv: string[] = process.argv.slice(2)): Promise<number> {
     return 2;
   }
 
+  if (options.range && targetFiles.length > 1) {
+    console.error(
+      "error: --range-start, --range-end, and --lines apply to a single file",
+    );
+    return 2;
+  }
+
+  const reportOnly = options.check || options.diff;
+  const textOutput = options.reporter === "text";
   const shouldPrintFormattedOutput =
-    options.showFormatted || (!options.write && targetFiles.length === 1);
+    textOutput &&
+    !reportOnly &&
+    (options.showFormatted || (!options.write && targetFiles.length === 1));
 
   let exitCode = 0;
+  const locateConfig = createConfigLocator();
+  // Cache hits carry no parse tree or segments, so debugging output and range
+  // formatting always format from scratch.
+  const cache =
+    options.cache &&
+    !options.range &&
+    !options.showRegions &&
+    !options.showSegments &&
+    !options.showTree
+      ? loadFormatCache(
+          path.resolve(options.cache.location),
+          options.cache.strategy,
+          readPackageVersion(),
+        )
+      : null;
+  const checkSummary: CheckSummary = {
+    checked: 0,
+    unformatted: [],
+    errored: 0,
+  };
+  const fileReports: FileReport[] = [];
 
-  targetFiles.forEach((filePath) => {
+  const reportFile = (filePath: string, outcome: FileOutcome) => {
     const displayPath = formatDisplayPath(filePath);
-    let source: string;
-    try {
-      source = fs.readFileSync(filePath, "utf8");
-    } catch (error) {
-      console.error(
-        `error: failed to read ${displayPath}: ${(error as Error).message}`,
-      );
-      exitCode = Math.max(exitCode, 2);
-      return;
-    }
-
-    const parsed = parseERB(source);
-    let formatterResult: FormatterResult;
-    try {
-      formatterResult = formatERB(parsed, options.config);
-    } catch (error) {
-      console.error(
-        `error: failed to format ${displayPath}: ${(error as Error).message}`,
-      );
-      exitCode = Math.max(exitCode, 3);
+    checkSummary.checked += 1;
+    if (outcome.status === "failed") {
+      console.error(`error: ${outcome.message}`);
+      fileReports.push(failedFileReport(displayPath, outcome.message));
+      checkSummary.errored += 1;
+      exitCode = Math.max(exitCode, outcome.exitCode);
       return;
     }
 
+    const { source, parsed } = outcome;
+    const formatterResult = outcome;
     const hasErrorDiagnostics = formatterResult.diagnostics.some(
       (diag) => diag.severity === "error",
     );
+    const cacheable = formatterResult.diagnostics.length === 0;
+    if (cacheable && formatterResult.output === source) {
+      cache?.markFormatted(filePath, source, outcome.config);
+    } else {
+      cache?.forget(filePath);
+    }
+    const fileReport: FileReport = {
+      path: displayPath,
+      changed: !hasErrorDiagnostics && formatterResult.output !== source,
+      diagnostics: formatterResult.diagnostics,
+    };
+    fileReports.push(fileReport);
+    // A failed write is this file's error, not the run's.
+    const writeOutput = (): boolean => {
+      try {
+        fs.writeFileSync(filePath, formatterResult.output, "utf8");
+      } catch (error) {
+        fileReport.error = `failed to write ${displayPath}: ${(error as Error).message}`;
+        console.error(`error: ${fileReport.error}`);
+        checkSummary.errored += 1;
+        exitCode = Math.max(exitCode, 2);
+        return false;
+      }
+      if (cacheable) {
+        cache?.markFormatted(filePath, formatterResult.output, outcome.config);
+      }
+      return true;
+    };
 
-    printRegions(
-      parsed.regions,
-      targetFiles.length > 1 ? displayPath : undefined,
-    );
+    if (reportOnly) {
+      if (textOutput && formatterResult.diagnostics.length > 0) {
+        printDiagnostics(formatterResult.diagnostics, displayPath);
+      }
+      if (hasErrorDiagnostics) {
+        checkSummary.errored += 1;
+        exitCode = exitCode === 0 ? 1 : exitCode;
+      } else if (formatterResult.output !== source) {
+        checkSummary.unformatted.push(displayPath);
+        if (options.diff) {
+          process.stdout.write(
+            createUnifiedDiff(
+              `a/${toPosixPath(displayPath)}`,
+              `b/${toPosixPath(displayPath)}`,
+              source,
+              formatterResult.output,
+              { context: options.diffContext, color: options.color },
+            ),
+          );
+        } else if (textOutput) {
+          console.log(`Unformatted ${displayPath}`);
+        }
+      }
+      return;
+    }
 
-    if (options.showSegments) {
-      printSegments(
-        formatterResult.segments,
+    if (hasErrorDiagnostics) {
+      exitCode = exitCode === 0 ? 1 : exitCode;
+    }
+
+    if (!textOutput) {
+      if (
+        options.write &&
+        !hasErrorDiagnostics &&
+        formatterResult.output !== source
+      ) {
+        writeOutput();
+      }
+      return;
+    }
+
+    if (options.showRegions && parsed) {
+      printRegions(
+        parsed.regions,
         targetFiles.length > 1 ? displayPath : undefined,
       );
     }
 
-    if (formatterResult.diagnostics.length > 0) {
-      printDiagnostics(
-        formatterResult.diagnostics,
+    if (options.showSegments) {
+      printSegments(
+        formatterResult.segments,
         targetFiles.length > 1 ? displayPath : undefined,
       );
     }
 
-    if (hasErrorDiagnostics) {
-      exitCode = exitCode === 0 ? 1 : exitCode;
+    if (formatterResult.diagnostics.length > 0) {
+      printDiagnostics(formatterResult.diagnostics, displayPath);
     }
 
     if (shouldPrintFormattedOutput) {
+      const showHeading =
+        targetFiles.length > 1 ||
+        options.showRegions ||
+        options.showSegments ||
+        formatterResult.diagnostics.length > 0;
       printFormattedOutput(
         formatterResult.output,
         targetFiles.length > 1 ? displayPath : undefined,
+        showHeading,
       );
     }
 
     if (options.write && !hasErrorDiagnostics) {
       if (formatterResult.output !== source) {
-        fs.writeFileSync(filePath, formatterResult.output, "utf8");
-        if (!shouldPrintFormattedOutput) {
+        if (writeOutput() && !shouldPrintFormattedOutput) {
           console.log(`Formatted ${displayPath}`);
         }
-      } else if (!shouldPrintFormattedOutput) {
+      } else if (!shouldPrintFormattedOutput && options.logLevel !== "quiet") {
         console.log(`Already formatted ${displayPath}`);
       }
     }
 
-    if (options.showTree) {
+    if (options.showTree && parsed) {
       const heading =
         targetFiles.length > 1
           ? `\n=== Syntax Tree (${displayPath}) ===`
@@ -126,21 +402,179 @@ async function runCli(argv: string[] = process.argv.slice(2)): Promise<number> {
       console.log(heading);
       console.log(printTree(parsed.tree, source));
     }
-  });
+  };
+
+  const jobs = options.jobs ?? defaultJobCount();
+  const useWorkers =
+    jobs > 1 &&
+    targetFiles.length > 1 &&
+    !options.range &&
+    !options.showRegions &&
+    !options.showSegments &&
+    !options.showTree;
+  // Syntax trees are only needed while their file is reported.
+  const reportAndRelease = (filePath: string, outcome: FileOutcome) => {
+    try {
+      reportFile(filePath, outcome);
+    } finally {
+      if (outcome.status === "formatted" && outcome.parsed) {
+        parsers.release(outcome.parsed);
+      }
+    }
+  };
+  if (useWorkers) {
+    await formatInWorkerPool(
+      targetFiles,
+      options,
+      locateConfig,
+      jobs,
+      cache,
+      reportAndRelease,
+    );
+  } else {
+    targetFiles.forEach((filePath) => {
+      reportAndRelease(
+        filePath,
+        formatFileInProcess(filePath, options, locateConfig, cache),
+      );
+    });
+  }
+
+  if (cache) {
+    try {
+      cache.save();
+    } catch (error) {
+      console.warn(
+        `warning: failed to write cache ${options.cache?.location}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  if (options.reporter === "json") {
+    process.stdout.write(formatJsonReport(fileReports));
+  } else if (options.reporter === "sarif") {
+    process.stdout.write(
+      formatSarifReport(fileReports, readPackageVersion(), reportOnly),
+    );
+  } else if (options.check) {
+    printCheckSummary(checkSummary, options.logLevel);
+  }
+  if (reportOnly) {
+    if (exitCode === 0 && checkSummary.unformatted.length > 0) {
+      exitCode = CHECK_FAILURE_EXIT_CODE;
+    }
+  }
 
   return exitCode;
 }
 
+/**
+ * `erb-fmt lsp`: serves LSP over stdin/stdout until the client exits.
+ * `--stdio` is accepted because most clients pass it unconditionally.
+ */
+function runLspCommand(
+  argv: string[],
+  stdin: NodeJS.ReadableStream,
+): Promise<number> {
+  let discoverConfig = true;
+  for (const arg of argv) {
+    if (arg === "--stdio") continue;
+    if (arg === "--no-config") {
+      discoverConfig = false;
+      continue;
+    }
+    console.error(`error: unknown lsp option ${arg}`);
+    return Promise.resolve(2);
+  }
+  return runLanguageServer(stdin, process.stdout, {
+    version: readPackageVersion(),
+    discoverConfig,
+  });
+}
+
+/**
+ * `erb-fmt --daemon`: keeps the grammars loaded and serves `--use-daemon`
+ * clients on a per-user socket until it has been idle for `--idle-timeout`
+ * seconds.
+ */
+function runDaemonCommand(argv: string[]): Promise<number> {
+  let idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS;
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === "--daemon") continue;
+    if (arg === "--idle-timeout" || arg.startsWith("--idle-timeout=")) {
+      const raw = arg.includes("=")
+        ? arg.slice("--idle-timeout=".length)
+        : argv[i + 1];
+      const seconds = Number(raw);
+      if (!raw || !Number.isFinite(seconds) || seconds <= 0) {
+        console.error(
+          "error: --idle-timeout requires a positive number of seconds",
+        );
+        return Promise.resolve(2);
+      }
+      idleTimeoutMs = seconds * 1000;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    console.error(`error: unknown daemon option ${arg}`);
+    return Promise.resolve(2);
+  }
+  return runDaemon({
+    socketPath: resolveSocketPath(),
+    idleTimeoutMs,
+    run: runCli,
+  });
+}
+
+function failedFileReport(displayPath: string, error: string): FileReport {
+  return { path: displayPath, changed: false, diagnostics: [], error };
+}
+
+function readPackageVersion(): string {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(new URL("../package.json", import.meta.url), "utf8"),
+    ) as { version?: string };
+    return packageJson.version ?? "0.0.0";
+  } catch {
+    return "0.0.0";
+  }
+}
+
 function parseCliArguments(argv: string[]): CliOptions | null {
   let showTree = false;
   let showFormatted = false;
   let showSegments = false;
+  let showRegions = false;
+  let quiet = false;
+  let verbose = false;
+  let reporter: ReporterName = "text";
   const configFragments: string[] = [];
   const configFiles: string[] = [];
   const targets: string[] = [];
   let requestedHelp = false;
   let write = false;
+  let check = false;
+  let diff = false;
+  let diffContext = 3;
+  let color: boolean | undefined;
+  let discoverConfig = true;
+  const ignorePaths: string[] = [];
+  const excludes: string[] = [];
   let passthroughTargets = false;
+  let stdin = false;
+  let stdinFilepath: string | undefined;
+  let rangeStart: number | undefined;
+  let rangeEnd: number | undefined;
+  let lines: { start: number; end: number } | undefined;
+  let jobs: number | undefined;
+  let cache = false;
+  let changed = false;
+  let staged = false;
+  let since: string | undefined;
+  let cacheLocation: string | undefined;
+  let cacheStrategy: CacheStrategy | undefined;
 
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
@@ -156,6 +590,132 @@ function parseCliArguments(argv: string[]): CliOptions | null {
       write = true;
       continue;
     }
+    if (arg === "--check") {
+      check = true;
+      continue;
+    }
+    if (arg === "--diff") {
+      diff = true;
+      continue;
+    }
+    if (arg === "--diff-context" || arg.startsWith("--diff-context=")) {
+      const raw = arg.includes("=")
+        ? arg.slice("--diff-context=".length)
+        : argv[i + 1];
+      const parsedContext = Number(raw);
+      if (!raw || !Number.isInteger(parsedContext) || parsedContext < 0) {
+        console.error("error: --diff-context requires a non-negative integer");
+        return null;
+      }
+      diffContext = parsedContext;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (
+      arg === "--range-start" ||
+      arg === "--range-end" ||
+      arg.startsWith("--range-start=") ||
+      arg.startsWith("--range-end=")
+    ) {
+      const [flag, inlineValue] = arg.split("=", 2);
+      const raw = inlineValue ?? argv[i + 1];
+      const offset = Number(raw);
+      if (!raw || !Number.isInteger(offset) || offset < 0) {
+        console.error(`error: ${flag} requires a non-negative byte offset`);
+        return null;
+      }
+      if (flag === "--range-start") {
+        rangeStart = offset;
+      } else {
+        rangeEnd = offset;
+      }
+      if (inlineValue === undefined) i += 1;
+      continue;
+    }
+    if (arg === "--lines" || arg.startsWith("--lines=")) {
+      const raw = arg.includes("=")
+        ? arg.slice("--lines=".length)
+        : argv[i + 1];
+      const match = /^(\d+)(?:-(\d+))?$/.exec(raw ?? "");
+      const startLine = match ? Number(match[1]) : 0;
+      const endLine = match?.[2] ? Number(match[2]) : startLine;
+      if (!match || startLine < 1 || endLine < startLine) {
+        console.error("error: --lines requires a 1-based range such as 10-40");
+        return null;
+      }
+      lines = { start: startLine, end: endLine };
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (arg === "--jobs" || arg === "-j" || arg.startsWith("--jobs=")) {
+      const raw = arg.includes("=") ? arg.slice("--jobs=".length) : argv[i + 1];
+      const parsedJobs = Number(raw);
+      if (!raw || !Number.isInteger(parsedJobs) || parsedJobs < 1) {
+        console.error("error: --jobs requires a positive integer");
+        return null;
+      }
+      jobs = parsedJobs;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (arg === "--staged") {
+      staged = true;
+      continue;
+    }
+    if (arg === "--changed") {
+      changed = true;
+      continue;
+    }
+    if (arg === "--since" || arg.startsWith("--since=")) {
+      const value = arg.includes("=")
+        ? arg.slice("--since=".length)
+        : argv[i + 1];
+      if (!value || value.startsWith("-")) {
+        console.error("error: --since requires a git revision");
+        return null;
+      }
+      since = value;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (arg === "--cache") {
+      cache = true;
+      continue;
+    }
+    if (arg === "--cache-location" || arg.startsWith("--cache-location=")) {
+      const value = arg.includes("=")
+        ? arg.slice("--cache-location=".length)
+        : argv[i + 1];
+      if (!value || value.startsWith("-")) {
+        console.error("error: --cache-location requires a path");
+        return null;
+      }
+      cacheLocation = value;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (arg === "--cache-strategy" || arg.startsWith("--cache-strategy=")) {
+      const value = arg.includes("=")
+        ? arg.slice("--cache-strategy=".length)
+        : argv[i + 1];
+      if (!CACHE_STRATEGIES.includes(value as CacheStrategy)) {
+        console.error(
+          `error: --cache-strategy must be one of ${CACHE_STRATEGIES.join(", ")}`,
+        );
+        return null;
+      }
+      cacheStrategy = value as CacheStrategy;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (arg === "--color") {
+      color = true;
+      continue;
+    }
+    if (arg === "--no-color") {
+      color = false;
+      continue;
+    }
     if (arg === "--tree") {
       showTree = true;
       continue;
@@ -168,6 +728,56 @@ function parseCliArguments(argv: string[]): CliOptions | null {
       showSegments = true;
       continue;
     }
+    if (arg === "--regions") {
+      showRegions = true;
+      continue;
+    }
+    if (arg === "--quiet" || arg === "-q") {
+      quiet = true;
+      continue;
+    }
+    if (arg === "--verbose") {
+      verbose = true;
+      continue;
+    }
+    if (arg === "--reporter" || arg.startsWith("--reporter=")) {
+      const value = arg.includes("=")
+        ? arg.slice("--reporter=".length)
+        : argv[i + 1];
+      if (!REPORTER_NAMES.includes(value as ReporterName)) {
+        console.error(
+          `error: --reporter must be one of ${REPORTER_NAMES.join(", ")}`,
+        );
+        return null;
+      }
+      reporter = value as ReporterName;
+      if (!arg.includes("=")) i += 1;
+      continue;
+    }
+    if (arg === "--ignore-path" || arg === "--exclude") {
+      const next = argv[i + 1];
+      if (!next || next.startsWith("-")) {
+        console.error(
+          `error: ${arg} requires a ${arg === "--exclude" ? "glob" : "path"}`,
+        );
+        return null;
+      }
+      (arg === "--exclude" ? excludes : ignorePaths).push(next);
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith("--ignore-path=")) {
+      ignorePaths.push(arg.slice("--ignore-path=".length));
+      continue;
+    }
+    if (arg.startsWith("--exclude=")) {
+      excludes.push(arg.slice("--exclude=".length));
+      continue;
+    }
+    if (arg === "--no-config") {
+      discoverConfig = false;
+      continue;
+    }
     if (arg === "--config-file") {
       const next = argv[i + 1];
       if (!next || next.startsWith("-")) {
@@ -196,6 +806,24 @@ function parseCliArguments(argv: string[]): CliOptions | null {
       configFragments.push(arg.slice("--config=".length));
       continue;
     }
+    if (arg === "--stdin" || arg === "-") {
+      stdin = true;
+      continue;
+    }
+    if (arg === "--stdin-filepath") {
+      const next = argv[i + 1];
+      if (!next || next.startsWith("-")) {
+        console.error("error: --stdin-filepath requires a path");
+        return null;
+      }
+      stdinFilepath = next;
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith("--stdin-filepath=")) {
+      stdinFilepath = arg.slice("--stdin-filepath=".length);
+      continue;
+    }
     if (arg === "--") {
       passthroughTargets = true;
       continue;
@@ -212,7 +840,89 @@ function parseCliArguments(argv: string[]): CliOptions | null {
     return null;
   }
 
-  if (targets.length === 0) {
+  if (stdinFilepath !== undefined && !stdin) {
+    stdin = true;
+  }
+
+  if (stdin && targets.length > 0) {
+    console.error("error: --stdin cannot be combined with file targets");
+    return null;
+  }
+
+  if (!cache && (cacheLocation !== undefined || cacheStrategy !== undefined)) {
+    console.error(
+      "error: --cache-location and --cache-strategy require --cache",
+    );
+    return null;
+  }
+
+  if (staged && (stdin || changed || since !== undefined)) {
+    console.error(
+      `error: --staged cannot be combined with ${stdin ? "--stdin" : changed ? "--changed" : "--since"}`,
+    );
+    return null;
+  }
+
+  if (staged && (lines || rangeStart !== undefined || rangeEnd !== undefined)) {
+    console.error(
+      "error: --staged cannot be combined with --range-start, --range-end, or --lines",
+    );
+    return null;
+  }
+
+  if (staged && reporter !== "text") {
+    console.error(
+      `error: --reporter ${reporter} cannot be combined with --staged`,
+    );
+    return null;
+  }
+
+  if (stdin && (changed || since !== undefined)) {
+    console.error(
+      "error: --stdin cannot be combined with --changed or --since",
+    );
+    return null;
+  }
+
+  if (stdin && write) {
+    console.error("error: --stdin cannot be combined with --write");
+    return null;
+  }
+
+  // `--changed`, `--since`, and `--staged` default to the working directory.
+  if (
+    targets.length === 0 &&
+    !stdin &&
+    !staged &&
+    !changed &&
+    since === undefined
+  ) {
+    return null;
+  }
+
+  if (reporter !== "text" && (diff || stdin)) {
+    console.error(
+      `error: --reporter ${reporter} cannot be combined with ${diff ? "--diff" : "--stdin"}`,
+    );
+    return null;
+  }
+
+  if (lines && (rangeStart !== undefined || rangeEnd !== undefined)) {
+    console.error(
+      "error: --lines cannot be combined with --range-start or --range-end",
+    );
+    return null;
+  }
+
+  if (quiet && verbose) {
+    console.error("error: --quiet cannot be combined with --verbose");
+    return null;
+  }
+
+  if ((check || diff) && write) {
+    console.error(
+      `error: ${check ? "--check" : "--diff"} cannot be combined with --write`,
+    );
     return null;
   }
 
@@ -252,24 +962,604 @@ function parseCliArguments(argv: string[]): CliOptions | null {
     }
   }
 
-  return { showTree, showFormatted, showSegments, write, targets, config };
+  const ignoreRuleSets: IgnoreRuleSet[] = [
+    {
+      baseDir: process.cwd(),
+      rules: parseIgnorePatterns(DEFAULT_IGNORE_PATTERNS.join("\n")),
+    },
+  ];
+  if (ignorePaths.length > 0) {
+    for (const ignorePath of ignorePaths) {
+      try {
+        ignoreRuleSets.push(loadIgnoreFile(ignorePath));
+      } catch (error) {
+        console.error(
+          `error: failed to read ignore file ${ignorePath}: ${(error as Error).message}`,
+        );
+        return null;
+      }
+    }
+  } else if (safeStat(path.resolve(IGNORE_FILE_NAME))?.isFile()) {
+    ignoreRuleSets.push(loadIgnoreFile(IGNORE_FILE_NAME));
+  }
+  if (excludes.length > 0) {
+    ignoreRuleSets.push({
+      baseDir: process.cwd(),
+      rules: parseIgnorePatterns(excludes.join("\n")),
+    });
+  }
+
+  return {
+    showTree,
+    showFormatted,
+    showSegments,
+    showRegions: showRegions || verbose,
+    logLevel: quiet ? "quiet" : verbose ? "verbose" : "normal",
+    reporter,
+    write,
+    check,
+    diff,
+    diffContext,
+    color: color ?? shouldUseColor(),
+    targets,
+    stdin,
+    stdinFilepath,
+    config,
+    discoverConfig,
+    ignore: createIgnoreMatcher(ignoreRuleSets),
+    range: lines
+      ? { unit: "lines", ...lines }
+      : rangeStart !== undefined || rangeEnd !== undefined
+        ? { unit: "bytes", start: rangeStart, end: rangeEnd }
+        : undefined,
+    jobs,
+    gitChanges: changed || since !== undefined ? { since } : undefined,
+    staged,
+    cache: cache
+      ? {
+          location: cacheLocation ?? DEFAULT_CACHE_LOCATION,
+          strategy: cacheStrategy ?? "content",
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Reads a target and resolves its config. Returns the final outcome instead
+ * when either fails or when the cache already knows the file is formatted.
+ */
+function prepareFile(
+  filePath: string,
+  options: CliOptions,
+  locateConfig: ConfigLocator,
+  cache: FormatCache | null,
+): PreparedFile | FileOutcome {
+  let source: string;
+  try {
+    source = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    return {
+      status: "failed",
+      exitCode: 2,
+      message: `failed to read ${formatDisplayPath(filePath)}: ${(error as Error).message}`,
+    };
+  }
+
+  let config: FormatterConfigInput | undefined;
+  try {
+    config = resolveFileConfig(filePath, options, locateConfig);
+  } catch (error) {
+    return { status: "failed", exitCode: 2, message: (error as Error).message };
+  }
+
+  if (cache?.isFormatted(filePath, source, config)) {
+    return {
+      status: "formatted",
+      source,
+      output: source,
+      diagnostics: [],
+      segments: [],
+      parsed: null,
+      config,
+    };
+  }
+  return { source, config };
+}
+
+/**
+ * Reads, configures, and formats one target on the main thread. Keeps the
+ * parse tree and segments so the debugging flags can print them.
+ */
+function formatFileInProcess(
+  filePath: string,
+  options: CliOptions,
+  locateConfig: ConfigLocator,
+  cache: FormatCache | null,
+): FileOutcome {
+  const prepared = prepareFile(filePath, options, locateConfig, cache);
+  if ("status" in prepared) {
+    return prepared;
+  }
+
+  const { source, config } = prepared;
+  const parsed = parsers.parse(source);
+  try {
+    const result = formatTemplate(parsed, source, config, options.range);
+    return {
+      status: "formatted",
+      source,
+      output: result.output,
+      diagnostics: result.diagnostics,
+      segments: result.segments,
+      parsed,
+      config,
+    };
+  } catch (error) {
+    parsers.release(parsed);
+    return {
+      status: "failed",
+      exitCode: 3,
+      message: `failed to format ${formatDisplayPath(filePath)}: ${(error as Error).message}`,
+    };
+  }
+}
+
+/**
+ * Formats the targets on worker threads and passes each outcome to `report`
+ * in target order. Files are read, configured, and checked against the cache
+ * here so every worker sees the same discovery cache. If the pool fails, the
+ * remaining files are formatted on the main thread.
+ */
+async function formatInWorkerPool(
+  targetFiles: string[],
+  options: CliOptions,
+  locateConfig: ConfigLocator,
+  jobs: number,
+  cache: FormatCache | null,
+  report: (filePath: string, outcome: FileOutcome) => void,
+): Promise<void> {
+  const tasks: FormatTask[] = [];
+  const taskFileIndexes: number[] = [];
+  const settled = new Map<number, FileOutcome>();
+  targetFiles.forEach((filePath, index) => {
+    const prepared = prepareFile(filePath, options, locateConfig, cache);
+    if ("status" in prepared) {
+      settled.set(index, prepared);
+    } else {
+      tasks.push({ filePath, ...prepared });
+      taskFileIndexes.push(index);
+    }
+  });
+
+  let nextFile = 0;
+  const reportSettledBefore = (fileIndex: number) => {
+    for (; nextFile < fileIndex; nextFile += 1) {
+      const outcome = settled.get(nextFile);
+      if (outcome) report(targetFiles[nextFile], outcome);
+    }
+  };
+
+  // Only a worker failure falls back to in-process formatting; an error
+  // thrown while reporting is passed on as is.
+  let reportFailed = false;
+  let reportError: unknown;
+  try {
+    await formatInWorkers(tasks, jobs, (result, taskIndex) => {
+      const fileIndex = taskFileIndexes[taskIndex];
+      try {
+        reportSettledBefore(fileIndex);
+        report(
+          targetFiles[fileIndex],
+          toFileOutcome(targetFiles[fileIndex], tasks[taskIndex], result),
+        );
+      } catch (error) {
+        reportFailed = true;
+        reportError = error;
+        throw error;
+      }
+      nextFile = fileIndex + 1;
+    });
+  } catch (error) {
+    if (reportFailed) throw reportError;
+    console.warn(
+      `warning: format workers failed (${(error as Error).message}); formatting the remaining files in-process`,
+    );
+    for (; nextFile < targetFiles.length; nextFile += 1) {
+      report(
+        targetFiles[nextFile],
+        settled.get(nextFile) ??
+          formatFileInProcess(
+            targetFiles[nextFile],
+            options,
+            locateConfig,
+            cache,
+          ),
+      );
+    }
+  }
+  reportSettledBefore(targetFiles.length);
+}
+
+function toFileOutcome(
+  filePath: string,
+  task: FormatTask,
+  result: FormatTaskResult,
+): FileOutcome {
+  if (result.status === "format-error") {
+    return {
+      status: "failed",
+      exitCode: 3,
+      message: `failed to format ${formatDisplayPath(filePath)}: ${result.message}`,
+    };
+  }
+  return {
+    status: "formatted",
+    source: task.source,
+    output: result.output,
+    diagnostics: result.diagnostics,
+    segments: [],
+    parsed: null,
+    config: task.config,
+  };
+}
+
+/** Parses and formats `source`, freeing the syntax trees straight away. */
+function formatSource(
+  source: string,
+  config: FormatterConfigInput | undefined,
+  range: RangeRequest | undefined,
+): FormatterResult {
+  const parsed = parsers.parse(source);
+  try {
+    return formatTemplate(parsed, source, config, range);
+  } finally {
+    parsers.release(parsed);
+  }
+}
+
+/**
+ * Runs the whole-file formatter, or the range formatter when a span was
+ * requested. Range results have no segment breakdown.
+ */
+function formatTemplate(
+  parsed: ParsedERB,
+  source: string,
+  config: FormatterConfigInput | undefined,
+  range: RangeRequest | undefined,
+): FormatterResult {
+  if (!range) {
+    return formatERB(parsed, config);
+  }
+  const result = formatERBRange(
+    source,
+    resolveFormatRange(source, range),
+    config,
+  );
+  return {
+    output: result.output,
+    edits: result.edits,
+    segments: [],
+    diagnostics: result.diagnostics,
+    config: result.config,
+  };
+}
+
+/** Converts a CLI range request into UTF-16 offsets into `source`. */
+function resolveFormatRange(source: string, range: RangeRequest): FormatRange {
+  if (range.unit === "lines") {
+    const lineStarts = [0];
+    for (let i = 0; i < source.length; i += 1) {
+      if (source[i] === "\n") lineStarts.push(i + 1);
+    }
+    const start = lineStarts[range.start - 1] ?? source.length;
+    const next = lineStarts[range.end];
+    return { start, end: next === undefined ? source.length : next - 1 };
+  }
+  const bytes = Buffer.from(source, "utf8");
+  const toOffset = (byteOffset: number) =>
+    bytes.subarray(0, Math.min(byteOffset, bytes.length)).toString("utf8")
+      .length;
+  return {
+    start: range.start === undefined ? 0 : toOffset(range.start),
+    end: range.end === undefined ? source.length : toOffset(range.end),
+  };
+}
+
+/**
+ * `--staged`: formats the staged content of each changed template and writes
+ * it back into the git index, so a pre-commit hook never picks up unstaged
+ * hunks. The working tree copy is rewritten too when it matches the index.
+ * When it has unstaged changes it is left alone, and files whose formatting
+ * would conflict with those changes are refused. `--check` and `--diff`
+ * report on the staged content without writing anything.
+ */
+function formatStagedFiles(options: CliOptions): number {
+  let stagedFiles: StagedFile[];
+  try {
+    stagedFiles = listStagedFiles(process.cwd());
+  } catch (error) {
+    console.error(`error: --staged: ${(error as Error).message}`);
+    return 2;
+  }
+  const inScope = new Set(
+    limitToTargets(
+      stagedFiles.map((file) => file.path),
+      options.targets,
+      options.ignore,
+    ),
+  );
+  const files = stagedFiles.filter((file) => inScope.has(file.path));
+  if (files.length === 0) {
+    if (options.logLevel !== "quiet") {
+      console.log("No staged templates to format");
+    }
+    return 0;
+  }
+
+  const reportOnly = options.check || options.diff;
+  const locateConfig = createConfigLocator();
+  const checkSummary: CheckSummary = {
+    checked: 0,
+    unformatted: [],
+    errored: 0,
+  };
+  let exitCode = 0;
+  const fail = (code: number, message: string) => {
+    console.error(`error: ${message}`);
+    checkSummary.errored += 1;
+    exitCode = Math.max(exitCode, code);
+  };
+
+  files.forEach((file) => {
+    const displayPath = formatDisplayPath(file.path);
+    checkSummary.checked += 1;
+    if (file.conflicted) {
+      fail(2, `${displayPath} has unresolved merge conflicts`);
+      return;
+    }
+
+    let source: string;
+    let formatterResult: FormatterResult;
+    try {
+      source = readStagedContent(file);
+    } catch (error) {
+      fail(
+        2,
+        `failed to read staged ${displayPath}: ${(error as Error).message}`,
+      );
+      return;
+    }
+    try {
+      formatterResult = formatSource(
+        source,
+        resolveFileConfig(file.path, options, locateConfig),
+        undefined,
+      );
+    } catch (error) {
+      fail(3, `failed to format ${displayPath}: ${(error as Error).message}`);
+      return;
+    }
+
+    if (formatterResult.diagnostics.length > 0) {
+      printDiagnostics(formatterResult.diagnostics, displayPath);
+    }
+    if (formatterResult.diagnostics.some((diag) => diag.severity === "error")) {
+      exitCode = exitCode === 0 ? 1 : exitCode;
+      return;
+    }
+
+    const { output } = formatterResult;
+    if (output === source) {
+      if (!reportOnly && options.logLevel !== "quiet") {
+        console.log(`Already formatted ${displayPath}`);
+      }
+      return;
+    }
+    if (reportOnly) {
+      checkSummary.unformatted.push(displayPath);
+      if (options.diff) {
+        process.stdout.write(
+          createUnifiedDiff(
+            `a/${toPosixPath(displayPath)}`,
+            `b/${toPosixPath(displayPath)}`,
+            source,
+            output,
+            { context: options.diffContext, color: options.color },
+          ),
+        );
+      } else {
+        console.log(`Unformatted ${displayPath}`);
+      }
+      return;
+    }
+
+    try {
+      if (file.hasUnstagedChanges) {
+        const workingCopy = fs.readFileSync(file.path, "utf8");
+        if (changesConflict(source, workingCopy, output)) {
+          fail(
+            2,
+            `refusing to format ${displayPath}: formatting the staged content conflicts with its unstaged changes; stage or stash them first`,
+          );
+          return;
+        }
+        writeStagedContent(file, output);
+        console.log(
+          `Formatted ${displayPath} (staged content only; unstaged changes left in the working tree)`,
+        );
+        return;
+      }
+      writeStagedContent(file, output);
+      fs.writeFileSync(file.path, output, "utf8");
+      console.log(`Formatted ${displayPath}`);
+    } catch (error) {
+      fail(
+        2,
+        `failed to update staged ${displayPath}: ${(error as Error).message}`,
+      );
+    }
+  });
+
+  if (options.check) {
+    printCheckSummary(checkSummary, options.logLevel);
+  }
+  if (reportOnly && exitCode === 0 && checkSummary.unformatted.length > 0) {
+    exitCode = CHECK_FAILURE_EXIT_CODE;
+  }
+  return exitCode;
+}
+
+/**
+ * Formats a buffer read from stdin. Only the formatted text is written to
+ * stdout (or the diff / check result); diagnostics go to stderr so editors can
+ * pipe the output straight back into the buffer.
+ */
+function formatStdin(options: CliOptions, source: string): number {
+  const filePath = path.resolve(options.stdinFilepath ?? "<stdin>");
+  const displayPath = options.stdinFilepath
+    ? formatDisplayPath(filePath)
+    : "<stdin>";
+  const passthrough = () => {
+    if (!options.check && !options.diff) {
+      process.stdout.write(source);
+    }
+  };
+
+  if (options.stdinFilepath && options.ignore.isIgnored(filePath, false)) {
+    passthrough();
+    return 0;
+  }
+
+  let formatterResult: FormatterResult;
+  try {
+    const fileConfig = resolveFileConfig(
+      filePath,
+      options,
+      createConfigLocator(),
+    );
+    formatterResult = formatSource(source, fileConfig, options.range);
+  } catch (error) {
+    console.error(
+      `error: failed to format ${displayPath}: ${(error as Error).message}`,
+    );
+    passthrough();
+    return 3;
+  }
+
+  if (formatterResult.diagnostics.length > 0) {
+    printDiagnostics(formatterResult.diagnostics, displayPath, console.error);
+  }
+
+  if (formatterResult.diagnostics.some((diag) => diag.severity === "error")) {
+    passthrough();
+    return 1;
+  }
+
+  const changed = formatterResult.output !== source;
+  if (options.diff) {
+    process.stdout.write(
+      createUnifiedDiff(
+        `a/${toPosixPath(displayPath)}`,
+        `b/${toPosixPath(displayPath)}`,
+        source,
+        formatterResult.output,
+        { context: options.diffContext, color: options.color },
+      ),
+    );
+  } else if (options.check) {
+    if (changed) {
+      console.log(`Unformatted ${displayPath}`);
+    }
+  } else {
+    process.stdout.write(formatterResult.output);
+  }
+
+  return (options.check || options.diff) && changed
+    ? CHECK_FAILURE_EXIT_CODE
+    : 0;
 }
 
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Combines the nearest discovered config for `filePath` with the explicit
+ * `--config-file`/`--config` overrides, which always win.
+ */
+function resolveFileConfig(
+  filePath: string,
+  options: CliOptions,
+  locateConfig: ConfigLocator,
+): FormatterConfigInput | undefined {
+  const discovered = options.discoverConfig ? locateConfig(filePath) : null;
+  if (!discovered) {
+    return options.config;
+  }
+  const merged: FormatterConfigInput = structuredClone(discovered.config);
+  if (options.config) {
+    mergeConfigInputs(merged, structuredClone(options.config));
+  }
+  return merged;
+}
+
+/**
+ * The `.erb` files among `files` (as listed by git) that are not ignored,
+ * limited to the given targets or, without targets, to the working directory.
+ */
+function limitToTargets(
+  files: string[],
+  targets: string[],
+  ignore: IgnoreMatcher,
+): string[] {
+  const changed = files.filter(
+    (filePath) => isErbFile(filePath) && !ignore.isIgnored(filePath, false),
+  );
+  const realPath = (filePath: string) => {
+    try {
+      return fs.realpathSync(filePath);
+    } catch {
+      return path.resolve(filePath);
+    }
+  };
+
+  if (targets.length === 0) {
+    const cwd = `${realPath(process.cwd())}${path.sep}`;
+    return changed.filter((filePath) => realPath(filePath).startsWith(cwd));
+  }
+  const inScope = new Set(
+    resolveTargetFiles(targets, ignore).files.map(realPath),
+  );
+  return changed.filter((filePath) => inScope.has(realPath(filePath)));
+}
+
+/**
+ * Expands file, directory, and glob targets into `.erb` files. Directory and
+ * glob expansion silently skips ignored entries; explicitly named files that
+ * are ignored are reported in `ignored` so the caller can surface a notice.
+ */
 function resolveTargetFiles(
   targets: string[],
+  ignore: IgnoreMatcher | null = null,
 ): {
   files: string[];
   missing: string[];
+  ignored: string[];
 } {
   const files = new Set<string>();
   const missing: string[] = [];
+  const ignored: string[] = [];
 
   targets.forEach((target) => {
     const trimmed = target.trim();
     if (!trimmed) return;
 
     if (isGlobPattern(trimmed)) {
-      const matches = expandGlobPattern(trimmed);
+      const matches = expandGlobPattern(trimmed, ignore);
       if (matches.length === 0) {
         missing.push(trimmed);
       } else {
@@ -286,7 +1576,7 @@ function resolveTargetFiles(
     }
 
     if (stats.isDirectory()) {
-      const dirMatches = collectErbFiles(resolved);
+      const dirMatches = collectErbFiles(resolved, ignore);
       if (dirMatches.length === 0) {
         missing.push(trimmed);
       } else {
@@ -296,7 +1586,11 @@ function resolveTargetFiles(
     }
 
     if (stats.isFile() && isErbFile(resolved)) {
-      files.add(resolved);
+      if (ignore?.isIgnored(resolved, false)) {
+        ignored.push(resolved);
+      } else {
+        files.add(resolved);
+      }
       return;
     }
 
@@ -304,14 +1598,17 @@ function resolveTargetFiles(
   });
 
   const ordered = Array.from(files).sort((a, b) => a.localeCompare(b));
-  return { files: ordered, missing };
+  return { files: ordered, missing, ignored };
 }
 
 function isGlobPattern(value: string): boolean {
   return value.includes("*") || value.includes("?") || value.includes("[");
 }
 
-function expandGlobPattern(pattern: string): string[] {
+function expandGlobPattern(
+  pattern: string,
+  ignore: IgnoreMatcher | null,
+): string[] {
   const resolvedPattern = path.resolve(process.cwd(), pattern);
   const relativePattern = path.relative(process.cwd(), resolvedPattern);
   const segments = splitPatternSegments(relativePattern);
@@ -321,9 +1618,13 @@ function expandGlobPattern(pattern: string): string[] {
     const candidate = path.resolve(process.cwd(), relativePattern);
     const stats = safeStat(candidate);
     if (stats?.isDirectory()) {
-      return collectErbFiles(candidate);
+      return collectErbFiles(candidate, ignore);
     }
-    if (stats?.isFile() && isErbFile(candidate)) {
+    if (
+      stats?.isFile() &&
+      isErbFile(candidate) &&
+      !ignore?.isIgnored(candidate, false)
+    ) {
       return [candidate];
     }
     return [];
@@ -339,11 +1640,14 @@ function expandGlobPattern(pattern: string): string[] {
   }
 
   const results = new Set<string>();
-  matchSegments(baseDir, patternSegments, 0, results);
+  matchSegments(baseDir, patternSegments, 0, results, ignore);
   return Array.from(results);
 }
 
-function collectErbFiles(directory: string): string[] {
+function collectErbFiles(
+  directory: string,
+  ignore: IgnoreMatcher | null,
+): string[] {
   const results: string[] = [];
   const queue: string[] = [directory];
 
@@ -355,8 +1659,14 @@ function collectErbFiles(directory: string): string[] {
       if (entry.name === "." || entry.name === "..") return;
       const entryPath = path.join(current, entry.name);
       if (entry.isDirectory()) {
-        queue.push(entryPath);
-      } else if (entry.isFile() && isErbFile(entryPath)) {
+        if (!ignore?.isIgnored(entryPath, true)) {
+          queue.push(entryPath);
+        }
+      } else if (
+        entry.isFile() &&
+        isErbFile(entryPath) &&
+        !ignore?.isIgnored(entryPath, false)
+      ) {
         results.push(entryPath);
       }
     });
@@ -370,10 +1680,15 @@ function matchSegments(
   segments: string[],
   index: number,
   results: Set<string>,
+  ignore: IgnoreMatcher | null,
 ): void {
   if (index >= segments.length) {
     const stats = safeStat(currentPath);
-    if (stats?.isFile() && isErbFile(currentPath)) {
+    if (
+      stats?.isFile() &&
+      isErbFile(currentPath) &&
+      !ignore?.isIgnored(currentPath, false)
+    ) {
       results.add(currentPath);
     }
     return;
@@ -382,7 +1697,7 @@ function matchSegments(
   const segment = segments[index];
 
   if (segment === "**") {
-    matchSegments(currentPath, segments, index + 1, results);
+    matchSegments(currentPath, segments, index + 1, results, ignore);
     const stats = safeStat(currentPath);
     if (!stats || !stats.isDirectory()) return;
     const entries = safeReadDir(currentPath);
@@ -390,9 +1705,11 @@ function matchSegments(
       if (entry.name === "." || entry.name === "..") return;
       const entryPath = path.join(currentPath, entry.name);
       if (entry.isDirectory()) {
-        matchSegments(entryPath, segments, index, results);
+        if (!ignore?.isIgnored(entryPath, true)) {
+          matchSegments(entryPath, segments, index, results, ignore);
+        }
       } else if (entry.isFile() && index + 1 === segments.length) {
-        if (isErbFile(entryPath)) {
+        if (isErbFile(entryPath) && !ignore?.isIgnored(entryPath, false)) {
           results.add(entryPath);
         }
       }
@@ -412,11 +1729,14 @@ function matchSegments(
     const entryStats = safeStat(entryPath);
     if (!entryStats) return;
     if (entryStats.isDirectory()) {
-      matchSegments(entryPath, segments, index + 1, results);
+      if (!ignore?.isIgnored(entryPath, true)) {
+        matchSegments(entryPath, segments, index + 1, results, ignore);
+      }
     } else if (
       entryStats.isFile() &&
       index === segments.length - 1 &&
-      isErbFile(entryPath)
+      isErbFile(entryPath) &&
+      !ignore?.isIgnored(entryPath, false)
     ) {
       results.add(entryPath);
     }
@@ -475,6 +1795,12 @@ function safeReadDir(dirPath: string): fs.Dirent[] {
   }
 }
 
+function shouldUseColor(): boolean {
+  if (process.env.NO_COLOR) return false;
+  if (process.env.FORCE_COLOR && process.env.FORCE_COLOR !== "0") return true;
+  return Boolean(process.stdout.isTTY);
+}
+
 function isErbFile(filePath: string): boolean {
   return filePath.toLowerCase().endsWith(".erb");
 }
@@ -487,6 +1813,10 @@ function formatDisplayPath(absolutePath: string): string {
   return relative;
 }
 
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
 function parseConfigFragments(fragments: string[]): FormatterConfigInput {
   const result: Record<string, unknown> = {};
   fragments.forEach((fragment) => {
@@ -664,32 +1994,63 @@ function printSegments(segments: FormatSegment[], fileLabel?: string): void {
   });
 }
 
-function printFormattedOutput(output: string, fileLabel?: string): void {
-  const heading = fileLabel
-    ? `=== Formatted Output (${fileLabel}) ===`
-    : "=== Formatted Output ===";
-  console.log(`\n${heading}`);
+function printFormattedOutput(
+  output: string,
+  fileLabel?: string,
+  showHeading = true,
+): void {
+  if (showHeading) {
+    const heading = fileLabel
+      ? `=== Formatted Output (${fileLabel}) ===`
+      : "=== Formatted Output ===";
+    console.log(`\n${heading}`);
+  }
   process.stdout.write(output);
   if (!output.endsWith("\n")) {
     process.stdout.write("\n");
   }
 }
 
+/**
+ * Prints one `path:line:col: severity [code] message` line per diagnostic, the
+ * shape editors and CI log parsers recognise, followed by the offending line.
+ */
 function printDiagnostics(
   diagnostics: FormatterResult["diagnostics"],
-  fileLabel?: string,
+  fileLabel: string,
+  log: (message: string) => void = console.log,
 ): void {
-  const heading = fileLabel
-    ? `=== Formatter Diagnostics (${fileLabel}) ===`
-    : "=== Formatter Diagnostics ===";
-  console.log(`\n${heading}`);
   diagnostics.forEach((diagnostic) => {
-    console.log(
-      `[${diagnostic.index}] ${diagnostic.severity.toUpperCase()}: ${diagnostic.message}`,
+    const position = diagnostic.location
+      ? `${fileLabel}:${diagnostic.location.line}:${diagnostic.location.column}`
+      : fileLabel;
+    log(
+      `${position}: ${diagnostic.severity} [${diagnostic.code}] ${diagnostic.message}`,
     );
+    if (diagnostic.snippet) {
+      log(`    ${diagnostic.snippet}`);
+    }
+    diagnostic.related?.forEach((related) => {
+      log(
+        `  ${fileLabel}:${related.location.line}:${related.location.column}: note: ${related.message}`,
+      );
+    });
   });
 }
 
+function printCheckSummary(summary: CheckSummary, logLevel: LogLevel): void {
+  const { checked, unformatted, errored } = summary;
+  const fileLabel = checked === 1 ? "file" : "files";
+  console.log(
+    `\nChecked ${checked} ${fileLabel}: ${unformatted.length} unformatted, ${errored} errored`,
+  );
+  if (unformatted.length > 0 && logLevel !== "quiet") {
+    console.log(
+      "Run erb-fmt --write on the files above to apply the formatting.",
+    );
+  }
+}
+
 function printRubyRegion(header: string, region: RubyRegion) {
   const { flavor, delimiters, code, codeRange } = region;
   const delimiterSummary = `${JSON.stringify(delimiters.open)}→${JSON.stringify(delimiters.close)}`;
@@ -725,15 +2086,48 @@ function printUsage(): void {
 
 Usage:
   erb-fmt [options] <file|glob ...>
+  erb-fmt [options] --stdin [--stdin-filepath <path>] < template.erb
+  erb-fmt lsp [--stdio] [--no-config]
+  erb-fmt --daemon [--idle-timeout <seconds>]
+  erb-fmt --use-daemon [options] <file|glob ...>
 
 Options:
   --format           Print formatted output.
   --write, -w        Overwrite the source file with formatted output.
+  --check            Report files that are not formatted without writing them.
+  --diff             Print a unified diff of the changes formatting would make.
+  --diff-context <n> Number of context lines around each diff hunk (default 3).
+  --color, --no-color
+                     Force or disable colored diff output (default: auto).
   --segments         Print formatter segment breakdown.
+  --regions          Print the parsed HTML/Ruby regions (debugging aid).
+  --quiet, -q        Suppress "Already formatted" and other informational lines.
+  --verbose          Print region dumps and all informational output.
   --tree             Print the embedded template syntax tree.
   --config-file      Load formatter configuration from a JSON file.
   --config <expr>    Override configuration values (comma separated key=value pairs).
   --config=...       Same as above.
+  --ignore-path <f>  Read ignore patterns from <f> instead of ./.erb-fmtignore (repeatable).
+  --exclude <glob>   Skip files matching a gitignore-style glob (repeatable).
+  --stdin, -         Format a template read from stdin and print it to stdout.
+  --stdin-filepath <path>
+                     Logical path of the stdin buffer (config lookup, ignores).
+  --range-start <n>, --range-end <n>
+                     Only reformat the complete elements covering these byte offsets.
+  --lines <a-b>      Only reformat the complete elements covering lines a through b.
+  --use-daemon       Run through a background daemon (started on first use).
+  --stop-daemon      Stop the background daemon.
+  --jobs <n>, -j <n> Format files on n worker threads (default: CPU count).
+  --changed          Only format files changed vs. HEAD, including untracked ones.
+  --since <rev>      Only format files changed since <rev> (its merge base with HEAD).
+  --staged           Format staged templates in the git index (for pre-commit hooks).
+  --cache            Skip files that were already formatted in an earlier run.
+  --cache-location <path>
+                     Cache file (default node_modules/.cache/erb-fmt/cache.json).
+  --cache-strategy <content|metadata>
+                     Detect changes by content hash (default) or mtime and size.
+  --reporter <name>  Output format: text (default), json, or sarif.
+  --no-config        Skip automatic discovery of .erb-fmtrc / package.json configs.
   --help, -h         Show this help message.
 
 Examples:
@@ -741,8 +2135,15 @@ Examples:
   erb-fmt --format app/views/shared/header.erb app/views/shared/footer.erb
   erb-fmt --write app/views/users/show.html.erb
   erb-fmt --write app/views/**/*.erb
+  erb-fmt --check app/views
+  erb-fmt --diff --diff-context 1 app/views/layouts
   erb-fmt --config "indentation.size=4,html.attributeWrapping='auto'" template.erb
   erb-fmt --config-file config/erb-fmt.json --write dashboard.erb
+  erb-fmt --check --reporter sarif app/views > erb-fmt.sarif
+  erb-fmt --stdin --stdin-filepath app/views/users/show.html.erb < buffer.erb
+  erb-fmt --write --exclude "app/views/legacy/**" .
+  erb-fmt --check --since origin/main app/views
+  erb-fmt --stdin --lines 10-40 < app/views/users/show.html.erb
 `);
 }
 
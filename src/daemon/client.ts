@@ -0,0 +1,188 @@
+import { spawn } from "child_process";
+import net from "net";
+import {
+  checkSocketPath,
+  encodeMessage,
+  readMessages,
+  resolveSocketPath,
+  type DaemonRequest,
+  type DaemonResponse,
+} from "./protocol.js";
+
+/** How long a freshly spawned daemon gets to start listening. */
+const SPAWN_TIMEOUT_MS = 5000;
+const CONNECT_RETRY_MS = 50;
+
+export interface DaemonClientOptions {
+  socketPath: string;
+  /** Starts a daemon when none is listening; `null` disables spawning. */
+  spawnDaemon: (() => void) | null;
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  /** Whether diff output should be colored, decided by the client's terminal. */
+  color: boolean;
+}
+
+/**
+ * Forwards one CLI invocation to the daemon and relays its output. Resolves
+ * with the exit code, or `null` when no daemon could be reached or its socket
+ * is not trusted, so the caller can fall back to formatting in-process. This
+ * module must not import the formatter: skipping the grammar startup is the
+ * point of the client.
+ */
+export async function runDaemonClient(
+  argv: string[],
+  options: DaemonClientOptions,
+): Promise<number | null> {
+  let socket = await connect(options.socketPath);
+  if (!socket && options.spawnDaemon) {
+    options.spawnDaemon();
+    const deadline = Date.now() + SPAWN_TIMEOUT_MS;
+    while (!socket && Date.now() < deadline) {
+      await delay(CONNECT_RETRY_MS);
+      socket = await connect(options.socketPath);
+    }
+  }
+  if (!socket) {
+    const problem = checkSocketPath(options.socketPath);
+    if (problem) {
+      options.stderr.write(
+        `warning: not using the erb-fmt daemon: ${problem}\n`,
+      );
+    }
+    return null;
+  }
+
+  const request: DaemonRequest = {
+    type: "run",
+    cwd: process.cwd(),
+    // The daemon's stdout is not a terminal, so color is decided here. Flags
+    // given by the user come later and still win.
+    argv: [options.color ? "--color" : "--no-color", ...argv],
+    stdin: readsStdin(argv) ? await readStream(options.stdin) : null,
+  };
+  return exchange(socket, request, options);
+}
+
+/**
+ * Whether the CLI will read a template from stdin for `argv`: `--stdin`, a
+ * `-` target, or `--stdin-filepath` on its own, mirroring `parseCliArguments`
+ * (which this module cannot import).
+ */
+function readsStdin(argv: string[]): boolean {
+  return argv.some(
+    (arg) =>
+      arg === "--stdin" ||
+      arg === "-" ||
+      arg === "--stdin-filepath" ||
+      arg.startsWith("--stdin-filepath="),
+  );
+}
+
+/**
+ * Handles `--use-daemon`: forwards the remaining arguments to the daemon on
+ * the default socket, starting one from `binPath` on first use. Resolves
+ * `null` when the invocation has to run in-process instead. `lsp` always does,
+ * because it needs a direct stdio connection to the editor.
+ */
+export async function runThroughDaemon(
+  argv: string[],
+  binPath: string | undefined,
+): Promise<number | null> {
+  if (argv[0] === "lsp" || argv.includes("--daemon")) {
+    return null;
+  }
+  return runDaemonClient(argv, {
+    socketPath: resolveSocketPath(),
+    spawnDaemon: binPath ? () => spawnDetachedDaemon(binPath) : null,
+    stdin: process.stdin,
+    stdout: process.stdout,
+    stderr: process.stderr,
+    color: Boolean(process.stdout.isTTY) && !process.env.NO_COLOR,
+  });
+}
+
+/** Handles `--stop-daemon`: stops the daemon on the default socket, if any. */
+export async function stopDefaultDaemon(): Promise<void> {
+  if (!(await stopDaemon(resolveSocketPath()))) {
+    process.stderr.write("notice: no erb-fmt daemon is running\n");
+  }
+}
+
+/** Asks a running daemon to exit. Resolves `false` when none is listening. */
+export async function stopDaemon(socketPath: string): Promise<boolean> {
+  const socket = await connect(socketPath);
+  if (!socket) return false;
+  await exchange(
+    socket,
+    { type: "stop" },
+    { stdout: process.stdout, stderr: process.stderr },
+  );
+  return true;
+}
+
+/**
+ * Spawns `erb-fmt --daemon` detached from the current process, so it outlives
+ * the client that started it.
+ */
+export function spawnDetachedDaemon(binPath: string): void {
+  const child = spawn(
+    process.execPath,
+    [...process.execArgv, binPath, "--daemon"],
+    { detached: true, stdio: "ignore" },
+  );
+  child.unref();
+}
+
+function exchange(
+  socket: net.Socket,
+  request: DaemonRequest,
+  output: Pick<DaemonClientOptions, "stdout" | "stderr">,
+): Promise<number> {
+  return new Promise((resolve) => {
+    let exitCode: number | null = null;
+    readMessages<DaemonResponse>(socket, (response) => {
+      if (response.type === "exit") {
+        exitCode = response.code;
+      } else {
+        output[response.type].write(response.data);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      if (exitCode === null) {
+        output.stderr.write(
+          "error: the erb-fmt daemon closed the connection unexpectedly\n",
+        );
+      }
+      resolve(exitCode ?? 1);
+    });
+    socket.write(encodeMessage(request));
+  });
+}
+
+/** Connects only when `checkSocketPath` trusts the socket, else resolves `null`. */
+function connect(socketPath: string): Promise<net.Socket | null> {
+  if (checkSocketPath(socketPath)) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const socket = net.connect(socketPath);
+    socket.once("connect", () => resolve(socket));
+    socket.once("error", () => {
+      socket.destroy();
+      resolve(null);
+    });
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
@@ -0,0 +1,139 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/** Environment variable that overrides the socket used by daemon and client. */
+export const DAEMON_SOCKET_ENV = "ERB_FMT_DAEMON_SOCKET";
+
+/** Shut the daemon down after this long without a request (15 minutes). */
+export const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+export type DaemonRequest =
+  | {
+      type: "run";
+      /** Working directory of the client; relative targets resolve against it. */
+      cwd: string;
+      argv: string[];
+      /** Contents of the client's stdin, when the arguments read from it. */
+      stdin: string | null;
+    }
+  | { type: "stop" };
+
+export type DaemonResponse =
+  { type: "stdout" | "stderr"; data: string } | { type: "exit"; code: number };
+
+/**
+ * Per-user socket (or named pipe on Windows) for this package version, so an
+ * upgraded client never talks to a daemon still running the old formatter.
+ * The socket sits in a directory only this user can enter: `erb-fmt` under
+ * `$XDG_RUNTIME_DIR`, or `erb-fmt-<uid>` under the temp directory.
+ */
+export function resolveSocketPath(): string {
+  const override = process.env[DAEMON_SOCKET_ENV];
+  if (override) return override;
+  const version = readPackageVersion();
+  if (process.platform === "win32") {
+    return `\\\\.\\pipe\\erb-fmt-user-${version}`;
+  }
+  const runtimeDir = process.env.XDG_RUNTIME_DIR;
+  const directory = runtimeDir
+    ? path.join(runtimeDir, "erb-fmt")
+    : path.join(os.tmpdir(), `erb-fmt-${currentUid()}`);
+  return path.join(directory, `${version}.sock`);
+}
+
+/**
+ * Creates the socket's directory (mode 0700) when it is missing. Returns why
+ * the socket path cannot be used, or null once it can.
+ */
+export function prepareSocketDirectory(socketPath: string): string | null {
+  if (process.platform === "win32") return null;
+  try {
+    fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+  } catch (error) {
+    return `cannot create ${path.dirname(socketPath)}: ${(error as Error).message}`;
+  }
+  return checkSocketPath(socketPath);
+}
+
+/**
+ * Returns why the socket path cannot be trusted, or null when it can. The
+ * directory must be a real directory owned by the current user that no one
+ * else can write to, and an existing socket must belong to the current user,
+ * so another local user cannot plant a socket that receives our buffers.
+ */
+export function checkSocketPath(socketPath: string): string | null {
+  if (process.platform === "win32") return null;
+  const directory = path.dirname(socketPath);
+  const uid = currentUid();
+  let stats: fs.Stats;
+  try {
+    stats = fs.lstatSync(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    return `cannot inspect ${directory}: ${(error as Error).message}`;
+  }
+  if (!stats.isDirectory()) return `${directory} is not a directory`;
+  if (stats.uid !== uid) return `${directory} is owned by another user`;
+  if ((stats.mode & 0o022) !== 0) {
+    return `${directory} is writable by other users`;
+  }
+  try {
+    if (fs.lstatSync(socketPath).uid !== uid) {
+      return `${socketPath} is owned by another user`;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      return `cannot inspect ${socketPath}: ${(error as Error).message}`;
+    }
+  }
+  return null;
+}
+
+/** Messages are newline-delimited JSON in both directions. */
+export function encodeMessage(message: DaemonRequest | DaemonResponse): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/** Calls `onMessage` for every complete line; lines that are not JSON are dropped. */
+export function readMessages<T>(
+  stream: NodeJS.ReadableStream,
+  onMessage: (message: T) => void,
+): void {
+  let buffered = "";
+  stream.setEncoding("utf8");
+  stream.on("data", (chunk: string) => {
+    buffered += chunk;
+    let newline = buffered.indexOf("\n");
+    while (newline !== -1) {
+      const message = parseLine<T>(buffered.slice(0, newline));
+      buffered = buffered.slice(newline + 1);
+      if (message !== null) onMessage(message);
+      newline = buffered.indexOf("\n");
+    }
+  });
+}
+
+function parseLine<T>(line: string): T | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line) as T;
+  } catch {
+    return null;
+  }
+}
+
+function currentUid(): number {
+  return typeof process.getuid === "function" ? process.getuid() : -1;
+}
+
+function readPackageVersion(): string {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(new URL("../../package.json", import.meta.url), "utf8"),
+    ) as { version?: string };
+    return packageJson.version ?? "0.0.0";
+  } catch {
+    return "0.0.0";
+  }
+}
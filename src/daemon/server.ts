@@ -0,0 +1,162 @@
+import fs from "fs";
+import net from "net";
+import { Readable } from "stream";
+import {
+  checkSocketPath,
+  encodeMessage,
+  prepareSocketDirectory,
+  readMessages,
+  type DaemonRequest,
+  type DaemonResponse,
+} from "./protocol.js";
+
+export interface DaemonOptions {
+  socketPath: string;
+  /** Close the socket and exit after this many milliseconds without a request. */
+  idleTimeoutMs: number;
+  /** Runs one CLI invocation; `runCli` in production. */
+  run: (argv: string[], stdin: NodeJS.ReadableStream) => Promise<number>;
+}
+
+/**
+ * Keeps the formatter (and its WebAssembly grammars) loaded and serves CLI
+ * invocations forwarded by `erb-fmt --use-daemon` over a Unix socket. Requests
+ * run one at a time because `runCli` writes to the process-wide stdout/stderr
+ * and resolves paths against the working directory, both of which are swapped
+ * for the client's while a request runs. Resolves once the daemon has stopped.
+ */
+export function runDaemon(options: DaemonOptions): Promise<number> {
+  const { socketPath, idleTimeoutMs, run } = options;
+  let queue = Promise.resolve();
+  let idleTimer: NodeJS.Timeout | undefined;
+
+  return new Promise((resolve) => {
+    const server = net.createServer((socket) => {
+      socket.on("error", () => socket.destroy());
+      readMessages<DaemonRequest>(socket, (request) => {
+        queue = queue.then(() => handleRequest(socket, request));
+      });
+    });
+
+    const stop = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      server.close(() => resolve(0));
+    };
+    const resetIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(stop, idleTimeoutMs);
+      idleTimer.unref();
+    };
+
+    const handleRequest = async (
+      socket: net.Socket,
+      request: DaemonRequest,
+    ): Promise<void> => {
+      resetIdleTimer();
+      const send = (response: DaemonResponse) => {
+        if (!socket.destroyed) socket.write(encodeMessage(response));
+      };
+      if (request.type === "stop") {
+        send({ type: "exit", code: 0 });
+        socket.end();
+        stop();
+        return;
+      }
+      let code: number;
+      try {
+        code = await withClientProcess(
+          request.cwd,
+          (stream, data) => send({ type: stream, data }),
+          () => run(request.argv, Readable.from([request.stdin ?? ""])),
+        );
+      } catch (error) {
+        send({
+          type: "stderr",
+          data: `${error instanceof Error ? (error.stack ?? error.message) : String(error)}\n`,
+        });
+        code = 1;
+      }
+      send({ type: "exit", code });
+      socket.end();
+      resetIdleTimer();
+    };
+
+    server.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code !== "EADDRINUSE") {
+        console.error(`error: erb-fmt daemon failed: ${error.message}`);
+        resolve(2);
+        return;
+      }
+      // A live daemon answers on the socket; a stale socket file left behind
+      // by a crashed one refuses the connection and can be replaced.
+      const probe = net.connect(socketPath);
+      probe.on("connect", () => {
+        probe.destroy();
+        console.error(
+          `notice: erb-fmt daemon already listening on ${socketPath}`,
+        );
+        resolve(0);
+      });
+      probe.on("error", () => {
+        const problem = checkSocketPath(socketPath);
+        if (problem) {
+          console.error(`error: erb-fmt daemon failed: ${problem}`);
+          resolve(2);
+          return;
+        }
+        fs.rmSync(socketPath, { force: true });
+        server.listen(socketPath);
+      });
+    });
+
+    server.on("listening", () => {
+      if (process.platform !== "win32") {
+        fs.chmodSync(socketPath, 0o600);
+      }
+      resetIdleTimer();
+    });
+    const problem = prepareSocketDirectory(socketPath);
+    if (problem) {
+      console.error(`error: erb-fmt daemon failed: ${problem}`);
+      resolve(2);
+      return;
+    }
+    server.listen(socketPath);
+  });
+}
+
+/**
+ * Runs `task` with stdout/stderr writes forwarded to the client and the
+ * working directory switched to the client's, restoring both afterwards.
+ */
+async function withClientProcess(
+  cwd: string,
+  write: (stream: "stdout" | "stderr", data: string) => void,
+  task: () => Promise<number>,
+): Promise<number> {
+  const originalStdoutWrite = process.stdout.write;
+  const originalStderrWrite = process.stderr.write;
+  const previousCwd = process.cwd();
+  const redirect =
+    (stream: "stdout" | "stderr") =>
+    (chunk: string | Uint8Array, ...rest: unknown[]): boolean => {
+      write(
+        stream,
+        typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"),
+      );
+      const callback = rest.find((arg) => typeof arg === "function");
+      if (callback) (callback as () => void)();
+      return true;
+    };
+
+  process.stdout.write = redirect("stdout") as typeof process.stdout.write;
+  process.stderr.write = redirect("stderr") as typeof process.stderr.write;
+  try {
+    process.chdir(cwd);
+    return await task();
+  } finally {
+    process.stdout.write = originalStdoutWrite;
+    process.stderr.write = originalStderrWrite;
+    process.chdir(previousCwd);
+  }
+}
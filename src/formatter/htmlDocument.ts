@@ -1,4 +1,5 @@
 import { getHtmlParser } from "../parser.js";
+import type { FormatterDiagnosticCode } from "./index.js";
 import type { PlaceholderDocument, PlaceholderEntry } from "./placeholders.js";
 import { PLACEHOLDER_PREFIX, PLACEHOLDER_SUFFIX } from "./placeholders.js";
 
@@ -55,6 +56,29 @@ const VOID_ELEMENTS = new Set([
   "wbr",
 ]);
 
+/** Elements whose end tag HTML lets the parser imply. */
+const OPTIONAL_END_TAG_ELEMENTS = new Set([
+  "html",
+  "head",
+  "body",
+  "p",
+  "li",
+  "dt",
+  "dd",
+  "option",
+  "optgroup",
+  "colgroup",
+  "caption",
+  "thead",
+  "tbody",
+  "tfoot",
+  "tr",
+  "td",
+  "th",
+  "rt",
+  "rp",
+]);
+
 const WHITESPACE_SENSITIVE_ELEMENTS = new Set([
   "pre",
   "code",
@@ -75,9 +99,12 @@ export interface HtmlPlaceholderInfo {
 }
 
 export interface HtmlDiagnostic {
+  code: FormatterDiagnosticCode;
   message: string;
   severity: "info" | "warning" | "error";
   entry?: PlaceholderEntry;
+  /** Placeholder-document offsets of the offending node, for parse errors. */
+  documentRange?: { startIndex: number; endIndex: number };
 }
 
 export interface HtmlDocumentAnalysis {
@@ -89,6 +116,16 @@ export interface HtmlDocumentAnalysis {
 export interface HtmlPrintResult {
   html: string;
   placeholderPrintInfo: PlaceholderPrintInfo[];
+  /** Subtrees copied through unformatted because they contain parse errors. */
+  skippedRanges: SkippedHtmlRange[];
+}
+
+export interface SkippedHtmlRange {
+  /** Placeholder-document offsets of the subtree. */
+  startIndex: number;
+  endIndex: number;
+  /** Tag name of the skipped element, or an empty string for loose markup. */
+  tagName: string;
 }
 
 export interface PlaceholderPrintInfo {
@@ -112,9 +149,27 @@ export function analyzePlaceholderDocument(
 
   const diagnostics: HtmlDiagnostic[] = [];
   if (treeHasError(tree)) {
-    diagnostics.push({
-      message: "HTML parse reported syntax errors in placeholder document",
-      severity: "error",
+    const reports = collectSyntaxErrors(tree.rootNode).map((node) =>
+      describeSyntaxError(node, document),
+    );
+    if (reports.length === 0) {
+      reports.push({
+        message: "HTML parse reported syntax errors in placeholder document",
+        startIndex: tree.rootNode.startIndex,
+        endIndex: tree.rootNode.endIndex,
+      });
+    }
+    const seen = new Set<string>();
+    reports.forEach(({ message, startIndex, endIndex }) => {
+      const key = `${startIndex}:${endIndex}:${message}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      diagnostics.push({
+        code: "html-parse-error",
+        message,
+        severity: "error",
+        documentRange: { startIndex, endIndex },
+      });
     });
   }
 
@@ -125,6 +180,7 @@ export function analyzePlaceholderDocument(
     const matchIndex = document.html.indexOf(entry.placeholder, searchIndex);
     if (matchIndex === -1) {
       diagnostics.push({
+        code: "placeholder-missing",
         message: `Placeholder token not found: ${entry.placeholder}`,
         severity: "error",
         entry,
@@ -162,6 +218,12 @@ export function analyzePlaceholderDocument(
 
 export type AttributeWrappingMode = "preserve" | "auto" | "force-multi-line";
 
+/**
+ * `skip-file` leaves a document with any parse error untouched; `skip-subtree`
+ * still prints well-formed markup and copies only the broken elements through.
+ */
+export type ParseErrorMode = "skip-file" | "skip-subtree";
+
 export function renderHtmlDocument(
   analysis: HtmlDocumentAnalysis,
   documentHtml: string,
@@ -170,18 +232,23 @@ export function renderHtmlDocument(
   collapseWhitespace: "preserve" | "conservative" | "aggressive",
   lineWidth: number | null,
   attributeWrapping: AttributeWrappingMode,
+  onParseError: ParseErrorMode = "skip-file",
 ): HtmlPrintResult {
-  if (treeHasError(analysis.tree)) {
+  const hasParseErrors = treeHasError(analysis.tree);
+  if (hasParseErrors && onParseError === "skip-file") {
+    // The document is returned as-is, so Ruby regions must not be reindented
+    // against element depths taken from a broken tree either.
     const fallbackInfo = analysis.placeholders.map((placeholder) => ({
       entry: placeholder.entry,
       indentationLevel: placeholder.elementDepth,
       inline: placeholder.inAttribute,
       inAttribute: placeholder.inAttribute,
-      sensitive: placeholder.insideSensitive,
+      sensitive: true,
     }));
     return {
       html: documentHtml,
       placeholderPrintInfo: fallbackInfo,
+      skippedRanges: [],
     };
   }
 
@@ -192,6 +259,7 @@ export function renderHtmlDocument(
   });
 
   const placeholderPrintInfo: PlaceholderPrintInfo[] = [];
+  const skippedRanges: SkippedHtmlRange[] = [];
 
   function printNode(
     node: SyntaxNode,
@@ -199,6 +267,9 @@ export function renderHtmlDocument(
     parentInline: boolean,
     sensitiveContext: boolean,
   ): string {
+    if (hasParseErrors && isSmallestBrokenNode(node)) {
+      return printVerbatim(node, depth);
+    }
     switch (node.type) {
       case "element":
         return printElement(node, depth, parentInline, sensitiveContext);
@@ -226,6 +297,27 @@ export function renderHtmlDocument(
     }
   }
 
+  function printVerbatim(node: SyntaxNode, depth: number): string {
+    const raw = documentHtml.slice(node.startIndex, node.endIndex);
+    const text = raw.trim();
+    if (!text) return "";
+    const startIndex = node.startIndex + (raw.length - raw.trimStart().length);
+    registerPlaceholdersInSlice(
+      node.startIndex,
+      node.endIndex,
+      depth,
+      false,
+      true,
+    );
+    const startTag = node.type === "element" ? node.namedChild(0) : null;
+    skippedRanges.push({
+      startIndex,
+      endIndex: startIndex + text.length,
+      tagName: startTag ? extractTagName(startTag) : "",
+    });
+    return `${indent(depth)}${text}\n`;
+  }
+
   function printElement(
     node: SyntaxNode,
     depth: number,
@@ -241,6 +333,13 @@ export function renderHtmlDocument(
       parentSensitive ||
       (tagName ? WHITESPACE_SENSITIVE_ELEMENTS.has(tagName) : false);
 
+    // The parser closes an unclosed element where its parent ends; printing
+    // that implied end tag would add markup the source does not have.
+    const unclosed = hasParseErrors && isUnclosedElement(node);
+    if (unclosed && sensitive) {
+      return printVerbatim(node, depth);
+    }
+
     const attributes = collectAttributes(startTag, depth, tagName);
 
     if (sensitive) {
@@ -311,6 +410,9 @@ export function renderHtmlDocument(
     children.forEach((child) => {
       result += printNode(child, depth + 1, inline, sensitive);
     });
+    if (unclosed) {
+      return result.endsWith("\n") ? result : `${result}\n`;
+    }
     if (!inline) {
       result += indent(depth);
     }
@@ -571,9 +673,28 @@ export function renderHtmlDocument(
   return {
     html,
     placeholderPrintInfo,
+    skippedRanges,
   };
 }
 
+/**
+ * Whether the printer puts the children of `element` on lines of their own,
+ * one level deeper: not for inline or whitespace-sensitive elements, nor for
+ * an element whose only child is text.
+ */
+export function indentsChildren(element: SyntaxNode): boolean {
+  const startTag = element.namedChild(0);
+  const tagName = startTag ? extractTagName(startTag) : "";
+  const children = element.namedChildren.filter(
+    (child) => child && child.type !== "start_tag" && child.type !== "end_tag",
+  );
+  return (
+    !INLINE_ELEMENTS.has(tagName) &&
+    !WHITESPACE_SENSITIVE_ELEMENTS.has(tagName) &&
+    !(children.length === 1 && children[0]?.type === "text")
+  );
+}
+
 function extractTagName(startTag: SyntaxNode): string {
   const tagNameNode =
     startTag.namedChildCount > 0 ? startTag.namedChild(0) : null;
@@ -638,12 +759,272 @@ function findEndTag(node: SyntaxNode): SyntaxNode | null {
   return null;
 }
 
+interface SyntaxErrorReport {
+  message: string;
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Returns the outermost ERROR nodes and every MISSING node, in document order.
+ * Elements whose only problem is a hidden missing end tag are returned as-is,
+ * as are the stray end tags and unclosed elements the grammar accepts without
+ * an error. Nested ERROR nodes are left to `describeSyntaxError`, which
+ * inspects the children of the node it is given.
+ */
+function collectSyntaxErrors(root: SyntaxNode): SyntaxNode[] {
+  const found: SyntaxNode[] = [];
+  const visit = (node: SyntaxNode) => {
+    if (node.isError || node.isMissing) {
+      found.push(node);
+      return;
+    }
+    const failing = node.children.filter(
+      (child): child is SyntaxNode =>
+        child !== null && (child.hasError || child.isMissing),
+    );
+    if (failing.length === 0 && node.type === "element") {
+      // The grammar's missing implicit end tag is hidden from `children`, so
+      // the element itself stands in for it.
+      found.push(node);
+      return;
+    }
+    failing.forEach(visit);
+  };
+  if (root.hasError) {
+    visit(root);
+  }
+  const reported = (node: SyntaxNode) =>
+    found.some(
+      (other) =>
+        other.id === node.id ||
+        (other.isError &&
+          other.startIndex <= node.startIndex &&
+          node.endIndex <= other.endIndex),
+    );
+  found.push(...findLooseMarkup(root).filter((node) => !reported(node)));
+  return found.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Stray end tags and unclosed elements. The grammar parses both without an
+ * ERROR node when they sit inside an element, as in `<div></span></div>` or
+ * `<section><div>text</section>`. An unclosed element holding a stray end tag
+ * is left out: the stray tag is the likelier mistake.
+ */
+function findLooseMarkup(root: SyntaxNode): SyntaxNode[] {
+  return root
+    .descendantsOfType(["erroneous_end_tag", "element"])
+    .filter(
+      (node): node is SyntaxNode =>
+        node !== null &&
+        (node.type === "erroneous_end_tag" ||
+          (isUnclosedElement(node) &&
+            !node.children.some(
+              (child) => child?.type === "erroneous_end_tag",
+            ))),
+    );
+}
+
+/**
+ * Turns an ERROR or MISSING node into a message naming the likely cause and
+ * the nearest enclosing tag, located at the node that triggered it.
+ */
+function describeSyntaxError(
+  node: SyntaxNode,
+  document: PlaceholderDocument,
+): SyntaxErrorReport {
+  const enclosingName = (context: SyntaxNode | null) =>
+    context ? findParentElementName(context) : "";
+  const report = (
+    message: string,
+    target: { startIndex: number; endIndex: number },
+    enclosing: string,
+  ): SyntaxErrorReport => {
+    const where = enclosing ? `inside <${enclosing}>` : "at the top level";
+    return {
+      message: `${message} ${where}`,
+      startIndex: target.startIndex,
+      endIndex: target.endIndex,
+    };
+  };
+  const describeStray = (stray: SyntaxNode, enclosing: string) =>
+    report(
+      `Stray </${stray.namedChild(0)?.text ?? ""}> has no matching open tag`,
+      stray,
+      enclosing,
+    );
+
+  if (node.type === "erroneous_end_tag") {
+    return describeStray(node, enclosingName(node.parent));
+  }
+
+  if (node.isMissing || node.type === "element") {
+    const element = node.isMissing ? node.parent : node;
+    if (element?.type === "element") {
+      const stray = element.children.find(
+        (child) => child?.type === "erroneous_end_tag",
+      );
+      if (stray) {
+        return describeStray(stray, enclosingName(element));
+      }
+      const startTag = element.namedChild(0) ?? element;
+      return report(
+        `Unclosed <${extractTagName(startTag)}>`,
+        startTag,
+        enclosingName(element.parent),
+      );
+    }
+    return report(`Missing "${node.type}"`, node, enclosingName(node.parent));
+  }
+
+  const tagNamePlaceholder = new RegExp(
+    `</?(${PLACEHOLDER_PREFIX}(\\d+)${PLACEHOLDER_SUFFIX})`,
+  ).exec(node.text);
+  if (tagNamePlaceholder) {
+    const entry = document.placeholders[Number(tagNamePlaceholder[2])];
+    const erb = entry ? truncate(entry.region.text.trim(), 40) : "ERB tag";
+    const startIndex = node.startIndex + tagNamePlaceholder.index;
+    return report(
+      `ERB tag ${erb} used as an HTML tag name; dynamic tag names cannot be parsed`,
+      { startIndex, endIndex: startIndex + tagNamePlaceholder[0].length },
+      enclosingName(node.parent),
+    );
+  }
+
+  if (node.parent?.type === "start_tag") {
+    return report(
+      `Malformed attributes in <${extractTagName(node.parent)}> (check for unbalanced quotes)`,
+      node,
+      enclosingName(node.parent.parent?.parent ?? null),
+    );
+  }
+
+  // Replay the loose tags inside the ERROR node to find what is left open.
+  const children = node.children.filter(
+    (child): child is SyntaxNode => child !== null,
+  );
+  const openTags: SyntaxNode[] = [];
+  const innermostOpen = () =>
+    openTags.length > 0
+      ? extractTagName(openTags[openTags.length - 1])
+      : enclosingName(node.parent);
+  for (const child of children) {
+    if (child.type === "start_tag") {
+      openTags.push(child);
+    } else if (child.type === "erroneous_end_tag") {
+      return describeStray(child, innermostOpen());
+    } else if (child.type === "end_tag") {
+      const name = child.namedChild(0)?.text ?? "";
+      const matchIndex = openTags
+        .map((tag) => extractTagName(tag))
+        .lastIndexOf(name);
+      if (matchIndex !== -1) {
+        openTags.splice(matchIndex);
+      }
+    }
+  }
+  const bareTagName = children.find((child) => child.type === "tag_name");
+  if (bareTagName) {
+    const openBracket = bareTagName.previousSibling;
+    return report(
+      `Malformed start tag <${bareTagName.text}> (check for an unterminated attribute quote)`,
+      {
+        startIndex:
+          openBracket?.type === "<"
+            ? openBracket.startIndex
+            : bareTagName.startIndex,
+        endIndex: bareTagName.endIndex,
+      },
+      innermostOpen(),
+    );
+  }
+
+  if (openTags.length > 0) {
+    return report(
+      `Unclosed <${extractTagName(openTags[0])}>`,
+      openTags[0],
+      enclosingName(node.parent),
+    );
+  }
+
+  return report(
+    `Unexpected "${truncate(node.text.trim(), 40)}"`,
+    node,
+    innermostOpen(),
+  );
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, " ");
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1)}…`
+    : singleLine;
+}
+
+/**
+ * True for the node `skip-subtree` copies through verbatim: an ERROR or
+ * MISSING node outside any element, an unclosed element with no unclosed
+ * element inside it, or an element whose own markup (rather than a child
+ * element) holds the error.
+ */
+function isSmallestBrokenNode(node: SyntaxNode): boolean {
+  if (node.isError || node.isMissing) {
+    return true;
+  }
+  if (node.type !== "element") {
+    return false;
+  }
+  if (isUnclosedElement(node)) {
+    return !node
+      .descendantsOfType("element")
+      .some(
+        (element) =>
+          element && element.id !== node.id && isUnclosedElement(element),
+      );
+  }
+  if (node.children.some((child) => child?.type === "erroneous_end_tag")) {
+    return true;
+  }
+  if (!node.hasError) {
+    return false;
+  }
+  const failing = node.children.filter(
+    (child) =>
+      child !== null && (child.hasError || child.isError || child.isMissing),
+  );
+  return (
+    failing.length === 0 || failing.some((child) => child?.type !== "element")
+  );
+}
+
+/**
+ * True for an element without an end tag in the source whose end tag is not
+ * optional, such as the `<span>` in `<div><span>text</div>`.
+ */
+function isUnclosedElement(node: SyntaxNode): boolean {
+  if (node.type !== "element") return false;
+  const startTag = node.namedChild(0);
+  if (startTag?.type !== "start_tag") return false;
+  const tagName = extractTagName(startTag);
+  return (
+    !VOID_ELEMENTS.has(tagName) &&
+    !OPTIONAL_END_TAG_ELEMENTS.has(tagName) &&
+    !findEndTag(node)
+  );
+}
+
+/**
+ * True when the tree has ERROR or MISSING nodes, or markup the grammar accepts
+ * but a browser would repair (see `findLooseMarkup`).
+ */
 function treeHasError(tree: Tree): boolean {
   const rootNode = tree.rootNode as unknown as {
     hasError?: boolean | (() => boolean);
   };
-  if (typeof rootNode.hasError === "function") {
-    return rootNode.hasError.call(tree.rootNode);
-  }
-  return Boolean(rootNode.hasError);
+  const hasError =
+    typeof rootNode.hasError === "function"
+      ? rootNode.hasError.call(tree.rootNode)
+      : Boolean(rootNode.hasError);
+  return hasError || findLooseMarkup(tree.rootNode).length > 0;
 }
@@ -1,15 +1,37 @@
-import type { ERBRegion, ParsedERB, RubyRegion } from "../parser.js";
+import type {
+  ERBRegion,
+  ParsedERB,
+  RubyBlock,
+  RubyBlockDepth,
+  RubyRegion,
+  SourceRange,
+} from "../parser.js";
 import {
   buildPlaceholderDocument,
+  type PlaceholderDocument,
   PLACEHOLDER_PREFIX,
   PLACEHOLDER_SUFFIX,
+  toSourceOffset,
 } from "./placeholders.js";
 import {
   analyzePlaceholderDocument,
   renderHtmlDocument,
+  type HtmlPrintResult,
   type PlaceholderPrintInfo,
 } from "./htmlDocument.js";
-import { renderRubyRegion } from "./rubyFormatter.js";
+import {
+  findInterleavedBlocks,
+  interleavedBlockDiagnostics,
+  validateRubyBlocks,
+  withoutBlocks,
+} from "./rubyBlocks.js";
+import { renderRubyRegion, verbatimRubyRows } from "./rubyFormatter.js";
+import { createSourceLocator, locateSpan } from "./sourceLocation.js";
+import {
+  computeTextEdits,
+  type SourceReplacement,
+  type TextEdit,
+} from "./textEdits.js";
 
 export interface FormatterConfig {
   indentation: {
@@ -34,6 +56,8 @@ export interface FormatterConfig {
     lineWidth: number | null;
     /** How to handle attribute wrapping when exceeding line width. */
     attributeWrapping: "preserve" | "auto" | "force-multi-line";
+    /** Leave the whole file, or only the broken subtrees, unformatted on parse errors. */
+    onParseError: "skip-file" | "skip-subtree";
   };
   ruby: {
     /** Control how `end` alignment should be normalized. */
@@ -43,7 +67,7 @@ export interface FormatterConfig {
     /** Preferred shape for inline guard clauses (`if`/`unless`). */
     inlineGuardStyle: "preserve" | "compact" | "expanded";
     /** Control Ruby region formatting. */
-    format: "none" | "heuristic";
+    format: "none" | "heuristic" | "ast";
     /** Preferred line width for Ruby code (falls back to HTML line width). */
     lineWidth: number | null;
   };
@@ -51,12 +75,8 @@ export interface FormatterConfig {
 
 export type FormatterConfigInput = RecursivePartial<FormatterConfig>;
 
-type WebTreeSitter = typeof import("web-tree-sitter");
-type ParserInstance = InstanceType<WebTreeSitter["Parser"]>;
-type Tree = NonNullable<ReturnType<ParserInstance["parse"]>>;
-type SyntaxNode = Tree["rootNode"];
-
-export type SegmentMode = "passthrough" | "html-normalized" | "ruby-normalized" | "unknown";
+export type SegmentMode =
+  "passthrough" | "html-normalized" | "ruby-normalized" | "unknown";
 
 export type SegmentKind = "html" | "ruby" | "unknown";
 
@@ -75,14 +95,55 @@ export interface FormatSegment {
   mode: SegmentMode;
 }
 
+/** Stable identifiers for diagnostics; safe to match on in tooling. */
+export type FormatterDiagnosticCode =
+  | "html-parse-error"
+  | "html-subtree-skipped"
+  | "placeholder-missing"
+  | "placeholder-info-missing"
+  | "ruby-block-crosses-element"
+  | "ruby-unclosed-block"
+  | "ruby-unexpected-closer";
+
 export interface FormatterDiagnostic {
+  /** Index of the source region the diagnostic refers to, or -1 for the whole document. */
   index: number;
   severity: "info" | "warning" | "error";
+  /** Stable rule identifier (for example `html-parse-error`). */
+  code: FormatterDiagnosticCode;
   message: string;
+  /** Source range of the affected region, when the diagnostic has one. */
+  range?: SourceRange;
+  /** One-based line/column view of `range`, ready for `path:line:col` output. */
+  location?: DiagnosticLocation;
+  /** Trimmed source line where the problem starts. */
+  snippet?: string;
+  /** Other places in the template that explain the problem. */
+  related?: DiagnosticRelatedLocation[];
+}
+
+/** A secondary position for a diagnostic, such as the opener of a block. */
+export interface DiagnosticRelatedLocation {
+  message: string;
+  range: SourceRange;
+  location: DiagnosticLocation;
+}
+
+/** One-based positions; `endColumn` is exclusive. Columns count UTF-16 code units. */
+export interface DiagnosticLocation {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
 }
 
 export interface FormatterResult {
   output: string;
+  /**
+   * Minimal edits that turn the source into `output`, at most one per changed
+   * segment, with LSP line/character ranges.
+   */
+  edits: TextEdit[];
   segments: FormatSegment[];
   diagnostics: FormatterDiagnostic[];
   config: FormatterConfig;
@@ -109,6 +170,7 @@ export const DEFAULT_FORMATTER_CONFIG: FormatterConfig = {
     collapseWhitespace: "conservative",
     lineWidth: 100,
     attributeWrapping: "preserve",
+    onParseError: "skip-file",
   },
   ruby: {
     alignBlockEnds: true,
@@ -132,35 +194,92 @@ export function formatERB(
 
   const placeholderDocument = buildPlaceholderDocument(parsed.regions);
   const htmlAnalysis = analyzePlaceholderDocument(placeholderDocument);
-  const htmlPrint = renderHtmlDocument(
-    htmlAnalysis,
-    placeholderDocument.html,
-    config.indentation.size,
-    config.indentation.style,
-    config.html.collapseWhitespace,
-    config.html.lineWidth,
-    config.html.attributeWrapping,
-  );
+  let htmlPrint: HtmlPrintResult;
+  let interleavedBlocks: RubyBlock[];
+  try {
+    interleavedBlocks = findInterleavedBlocks(parsed, htmlAnalysis);
+    htmlPrint = renderHtmlDocument(
+      htmlAnalysis,
+      placeholderDocument.html,
+      config.indentation.size,
+      config.indentation.style,
+      config.html.collapseWhitespace,
+      config.html.lineWidth,
+      config.html.attributeWrapping,
+      config.html.onParseError,
+    );
+  } finally {
+    // The placeholder tree is only needed for printing; free its WASM memory.
+    htmlAnalysis.tree.delete();
+  }
 
+  // How the markup inside an interleaved block should be indented is
+  // ambiguous, so its directives stay as written and add no depth.
   const { output, segments, rubyDiagnostics } = composeOutput(
     htmlPrint.html,
     htmlPrint.placeholderPrintInfo,
-    parsed,
+    withoutBlocks(parsed.rubyBlocks.depths, interleavedBlocks),
+    new Set(interleavedBlocks.flatMap((block) => block.regionIndexes)),
     config,
   );
 
+  const source = parsed.regions.map((region) => region.text).join("");
+  const locator = createSourceLocator(source);
+  const locate = (startIndex: number, endIndex: number) =>
+    locateSpan(locator, startIndex, endIndex);
+
+  // With `skip-subtree` the rest of the file is still formatted, so parse
+  // errors no longer block writing it.
+  const skipSubtrees = config.html.onParseError === "skip-subtree";
   const diagnostics: FormatterDiagnostic[] = [];
   htmlAnalysis.diagnostics.forEach((diag) => {
+    let position: ReturnType<typeof locate> | undefined;
+    if (diag.entry) {
+      const segment = placeholderDocument.segments[diag.entry.regionIndex];
+      position = locate(segment.sourceStart, segment.sourceEnd);
+    } else if (diag.documentRange) {
+      position = locate(
+        toSourceOffset(placeholderDocument, diag.documentRange.startIndex),
+        toSourceOffset(placeholderDocument, diag.documentRange.endIndex, true),
+      );
+    }
     diagnostics.push({
       index: diag.entry?.regionIndex ?? -1,
-      severity: diag.severity,
+      severity:
+        skipSubtrees && diag.code === "html-parse-error"
+          ? "warning"
+          : diag.severity,
+      code: diag.code,
       message: diag.message,
+      ...position,
+    });
+  });
+  htmlPrint.skippedRanges.forEach((skipped) => {
+    const subject = skipped.tagName ? `<${skipped.tagName}>` : "Markup";
+    diagnostics.push({
+      index: -1,
+      severity: "warning",
+      code: "html-subtree-skipped",
+      message: `${subject} left unformatted because it contains HTML parse errors`,
+      ...locate(
+        toSourceOffset(placeholderDocument, skipped.startIndex),
+        toSourceOffset(placeholderDocument, skipped.endIndex, true),
+      ),
     });
   });
-  diagnostics.push(...rubyDiagnostics);
+  diagnostics.push(
+    ...rubyDiagnostics,
+    ...validateRubyBlocks(parsed),
+    ...interleavedBlockDiagnostics(parsed, interleavedBlocks),
+  );
 
   return {
     output,
+    edits: computeTextEdits(
+      source,
+      output,
+      mapSegmentsToSource(segments, placeholderDocument, parsed.regions),
+    ),
     segments,
     diagnostics,
     config,
@@ -171,13 +290,62 @@ export function formatERB(
   };
 }
 
-type RecursivePartial<T,> = {
+/**
+ * Pairs each output segment with the source it replaces: Ruby segments with
+ * their region, HTML segments with the markup between two Ruby regions.
+ * Returns null when a placeholder went missing or moved, since the segments
+ * then no longer line up with the source.
+ */
+function mapSegmentsToSource(
+  segments: FormatSegment[],
+  document: PlaceholderDocument,
+  regions: ERBRegion[],
+): SourceReplacement[] | null {
+  const rubySegments = segments.filter((segment) => segment.kind === "ruby");
+  if (rubySegments.length !== document.placeholders.length) return null;
+
+  const replacements: SourceReplacement[] = [];
+  let rubyIndex = 0;
+  let cursor = 0;
+  let pendingHtml = "";
+  for (const segment of segments) {
+    if (segment.kind !== "ruby") {
+      pendingHtml += segment.formatted;
+      continue;
+    }
+    const entry = document.placeholders[rubyIndex];
+    rubyIndex += 1;
+    if (!segment.region || regions[entry.regionIndex] !== segment.region) {
+      return null;
+    }
+    const span = document.segments[entry.regionIndex];
+    replacements.push(
+      { start: cursor, end: span.sourceStart, newText: pendingHtml },
+      {
+        start: span.sourceStart,
+        end: span.sourceEnd,
+        newText: segment.formatted,
+      },
+    );
+    pendingHtml = "";
+    cursor = span.sourceEnd;
+  }
+  const lastSpan = document.segments[document.segments.length - 1];
+  replacements.push({
+    start: cursor,
+    end: lastSpan ? lastSpan.sourceEnd : 0,
+    newText: pendingHtml,
+  });
+  return replacements;
+}
+
+type RecursivePartial<T> = {
   [K in keyof T]?: T[K] extends Record<string, unknown>
     ? RecursivePartial<T[K]>
     : T[K];
 };
 
-function mergeConfig(
+export function mergeConfig(
   defaults: FormatterConfig,
   override?: FormatterConfigInput,
 ): FormatterConfig {
@@ -404,7 +572,8 @@ interface ComposeOutputResult {
 function composeOutput(
   htmlWithPlaceholders: string,
   placeholderPrintInfo: PlaceholderPrintInfo[],
-  parsed: ParsedERB,
+  blockDepths: RubyBlockDepth[],
+  verbatimRegions: Set<number>,
   config: FormatterConfig,
 ): ComposeOutputResult {
   const placeholderMap = new Map<number, PlaceholderPrintInfo>();
@@ -431,7 +600,11 @@ function composeOutput(
   while ((match = placeholderPattern.exec(htmlWithPlaceholders)) !== null) {
     const start = match.index;
     const id = Number.parseInt(match[1], 10);
-    const info = placeholderMap.get(id);
+    const printInfo = placeholderMap.get(id);
+    const info =
+      printInfo && verbatimRegions.has(printInfo.entry.regionIndex)
+        ? { ...printInfo, sensitive: true }
+        : printInfo;
 
     if (start > lastIndex) {
       let htmlText = htmlWithPlaceholders.slice(lastIndex, start);
@@ -467,19 +640,29 @@ function composeOutput(
       diagnostics.push({
         index: -1,
         severity: "error",
+        code: "placeholder-info-missing",
         message: `No placeholder info found for id ${id}`,
       });
       lastIndex = placeholderPattern.lastIndex;
       continue;
     }
 
+    const blockDepth = blockDepths[info.entry.regionIndex];
+    const previous = segments[segments.length - 1];
+    const startsLine = !previous || /(^|\n)[ \t]*$/.test(previous.formatted);
     const rubyResult = formatRubyPlaceholderSegment(
       info,
-      currentRubyIndent,
+      blockDepth,
+      startsLine ? null : currentLineLength(segments),
       config,
       indentUnit,
     );
-    currentRubyIndent = rubyResult.nextIndent;
+    // Blocks opened inside a line of markup leave the following lines alone,
+    // but closing one still ends the indentation it was given.
+    currentRubyIndent =
+      info.inline || info.inAttribute || info.sensitive
+        ? Math.min(currentRubyIndent, blockDepth.after)
+        : blockDepth.after;
     segments.push({
       index: segments.length,
       kind: "ruby",
@@ -526,12 +709,16 @@ interface RubyPlaceholderResult {
   formatted: string;
   indentationLevel: number;
   mode: SegmentMode;
-  nextIndent: number;
 }
 
+/**
+ * `lineOffset` is the length of the output line the directive continues, or
+ * null when the directive starts its own line.
+ */
 function formatRubyPlaceholderSegment(
   info: PlaceholderPrintInfo,
-  currentRubyIndent: number,
+  blockDepth: RubyBlockDepth,
+  lineOffset: number | null,
   config: FormatterConfig,
   indentUnit: string,
 ): RubyPlaceholderResult {
@@ -544,7 +731,6 @@ function formatRubyPlaceholderSegment(
         formatted: inlineText,
         indentationLevel: 0,
         mode: "ruby-normalized",
-        nextIndent: currentRubyIndent,
       };
     }
     const open = region.delimiters.open.trim();
@@ -554,11 +740,15 @@ function formatRubyPlaceholderSegment(
     const bodyContent = inlineText.slice(openIndex, closeIndex).trim();
     const normalizedInline = normalizeSegmentText(bodyContent, config);
     const bodyLines = normalizedInline.split(/\r?\n/);
+    const verbatimRows = verbatimRubyRows(normalizedInline, config);
     const baseIndent = indentUnit.repeat(info.indentationLevel);
     const bodyIndentBase = info.indentationLevel + 1;
     let structuralDepth = 0;
-    const formattedBodyLines = bodyLines.map((line) => {
+    const formattedBodyLines = bodyLines.map((line, row) => {
       const trimmed = line.trim();
+      if (verbatimRows.has(row)) {
+        return line;
+      }
       if (!trimmed) {
         return "";
       }
@@ -582,48 +772,48 @@ function formatRubyPlaceholderSegment(
       formatted: formattedInline,
       indentationLevel: info.indentationLevel,
       mode: "ruby-normalized",
-      nextIndent: currentRubyIndent,
     };
   }
 
   if (info.sensitive) {
     return {
       formatted: region.text,
-      indentationLevel: currentRubyIndent,
+      indentationLevel: blockDepth.depth,
       mode: "ruby-normalized",
-      nextIndent: currentRubyIndent,
     };
   }
 
-  const rendered = renderRubyRegion(region, config);
+  const totalIndentLevel = info.indentationLevel + blockDepth.depth;
+  const column =
+    lineOffset ?? totalIndentLevel * Math.max(1, config.indentation.size);
+  const rendered = renderRubyRegion(region, config, column);
   const normalized = normalizeSegmentText(rendered, config);
-  const effects =
-    region.flavor === "logic"
-      ? analyzeRubyIndentation(region)
-      : ZERO_INDENTATION_EFFECT;
-  const containerIndentContribution = info.indentationLevel;
-  const rubyIndentLevel = clampIndent(currentRubyIndent + effects.before);
-  const totalIndentLevel = clampIndent(
-    containerIndentContribution + rubyIndentLevel,
-  );
 
+  // A directive after text on the same line keeps its place in that line.
   const formatted = applyIndentation(normalized, totalIndentLevel, config, {
-    indentFirstLine: true,
+    indentFirstLine: lineOffset === null,
+    verbatimRows: verbatimRubyRows(normalized, config),
   });
 
-  const nextIndent =
-    region.flavor === "logic"
-      ? clampIndent(rubyIndentLevel + effects.after)
-      : currentRubyIndent;
-
   return {
     formatted,
     indentationLevel: totalIndentLevel,
     mode: "ruby-normalized",
-    nextIndent,
   };
 }
 
+/** Length of the last line of the output composed so far. */
+function currentLineLength(segments: FormatSegment[]): number {
+  let length = 0;
+  for (let i = segments.length - 1; i >= 0; i -= 1) {
+    const text = segments[i].formatted;
+    const newline = text.lastIndexOf("\n");
+    length += text.length - newline - 1;
+    if (newline !== -1) break;
+  }
+  return length;
+}
+
 function adjustHtmlSegment(
   text: string,
   rubyIndentLevel: number,
@@ -639,124 +829,6 @@ function adjustHtmlSegment(
   });
 }
 
-interface IndentationEffect {
-  before: number;
-  after: number;
-}
-
-const ZERO_INDENTATION_EFFECT: IndentationEffect = { before: 0, after: 0 };
-
-function analyzeRubyIndentation(region: RubyRegion): IndentationEffect {
-  const code = region.code.trim();
-  if (!code) return ZERO_INDENTATION_EFFECT;
-
-  const node = extractSignificantRubyNode(region.tree);
-  const effectFromAst = node ? classifyRubyNode(node) : null;
-  if (effectFromAst) {
-    return effectFromAst;
-  }
-
-  return classifyByKeyword(code);
-}
-
-const CONTAINER_NODE_TYPES = new Set([
-  "program",
-  "ERROR",
-  "body_statement",
-  "then",
-  "else",
-  "when",
-  "ensure",
-  "rescue",
-  "block_body",
-  "command",
-]);
-
-function extractSignificantRubyNode(tree: Tree | null): SyntaxNode | null {
-  if (!tree) return null;
-
-  const queue: SyntaxNode[] = [tree.rootNode];
-
-  while (queue.length > 0) {
-    const node = queue.shift();
-    if (!node || nodeIsMissing(node)) continue;
-    if (node.type === "comment") continue;
-
-    if (CONTAINER_NODE_TYPES.has(node.type)) {
-      for (let i = node.namedChildCount - 1; i >= 0; i--) {
-        const child = node.namedChild(i);
-        if (child) queue.unshift(child);
-      }
-      continue;
-    }
-
-    return node;
-  }
-
-  return null;
-}
-
-function classifyRubyNode(node: SyntaxNode): IndentationEffect | null {
-  switch (node.type) {
-    case "if":
-    case "unless":
-    case "while":
-    case "until":
-    case "for":
-    case "case":
-    case "begin":
-    case "class":
-    case "module":
-    case "method":
-    case "def":
-    case "if_statement": // tree-sitter-ruby alias in some versions
-      return { before: 0, after: 1 };
-    case "if_modifier":
-    case "unless_modifier":
-    case "while_modifier":
-    case "until_modifier":
-      return ZERO_INDENTATION_EFFECT;
-    case "rescue":
-    case "ensure":
-    case "else":
-    case "when":
-      return { before: -1, after: 1 };
-    case "do_block":
-    case "block":
-      return { before: 0, after: 1 };
-    case "call": {
-      const methodNode = node.childForFieldName("method");
-      const methodName = methodNode?.text ?? "";
-      if (
-        methodName === "elsif" ||
-        methodName === "when" ||
-        methodName === "rescue" ||
-        methodName === "ensure"
-      ) {
-        return { before: -1, after: 1 };
-      }
-
-      const block = node.childForFieldName("block");
-      if (block && (block.type === "do_block" || block.type === "block")) {
-        return { before: 0, after: 1 };
-      }
-      return ZERO_INDENTATION_EFFECT;
-    }
-    default:
-      return null;
-  }
-}
-
-function nodeIsMissing(node: SyntaxNode): boolean {
-  const candidate = node as unknown as {
-    isMissing?: boolean | (() => boolean);
-  };
-  if (typeof candidate.isMissing === "function") {
-    return candidate.isMissing.call(node);
-  }
-  return Boolean(candidate.isMissing);
-}
-
 function countInlineLeadingClosers(line: string): number {
   let index = 0;
   let count = 0;
@@ -863,41 +935,18 @@ function computeInlineStructuralDelta(line: string): number {
   return opens - closes;
 }
 
-function classifyByKeyword(code: string): IndentationEffect {
-  if (/^end\b/.test(code)) {
-    return { before: -1, after: 0 };
-  }
-
-  if (/^(else|elsif|when|rescue|ensure)\b/.test(code)) {
-    return { before: -1, after: 1 };
-  }
-
-  if (
-    /^(if|unless|while|until|for|case|class|module|begin|def|method)\b/.test(
-      code,
-    )
-  ) {
-    return { before: 0, after: 1 };
-  }
-
-  if (/\bdo\s*(\|[^|]*\|\s*)?$/.test(code)) {
-    return { before: 0, after: 1 };
-  }
-
-  return ZERO_INDENTATION_EFFECT;
-}
-
-function clampIndent(value: number): number {
-  return value < 0 ? 0 : value;
-}
-
 function applyIndentation(
   text: string,
   level: number,
   config: FormatterConfig,
-  options: { indentFirstLine: boolean },
+  options: {
+    indentFirstLine: boolean;
+    /** Rows copied as they are, such as heredoc bodies printed from the AST. */
+    verbatimRows?: Set<number>;
+  },
 ): string {
   if (!text) return text;
+  const verbatimRows = options.verbatimRows ?? new Set<number>();
   const indentSize = Math.max(1, config.indentation.size);
   const indentStyle = config.indentation.style;
   const baseIndent =
@@ -922,7 +971,7 @@ function applyIndentation(
 
   let minIndentWidth = Infinity;
   indentInfos.forEach((info, index) => {
-    if (!info.hasContent) return;
+    if (!info.hasContent || verbatimRows.has(index)) return;
     if (index === 0 && !options.indentFirstLine) return;
     minIndentWidth = Math.min(minIndentWidth, info.width);
   });
@@ -938,7 +987,9 @@ function applyIndentation(
 
     let lineOut = "";
 
-    if (!info.hasContent) {
+    if (verbatimRows.has(index)) {
+      lineOut = segment.line;
+    } else if (!info.hasContent) {
       lineOut = "";
     } else {
       const remainderWidth = Math.max(0, info.width - minIndentWidth);
@@ -10,9 +10,20 @@ export interface PlaceholderEntry {
   placeholder: string;
 }
 
+/** Where one source region landed in the placeholder document, by offset. */
+export interface PlaceholderDocumentSegment {
+  regionIndex: number;
+  documentStart: number;
+  documentEnd: number;
+  sourceStart: number;
+  sourceEnd: number;
+}
+
 export interface PlaceholderDocument {
   html: string;
   placeholders: PlaceholderEntry[];
+  /** One entry per source region, in order; used to map offsets back to the template. */
+  segments: PlaceholderDocumentSegment[];
 }
 
 export function buildPlaceholderDocument(
@@ -20,26 +31,97 @@ export function buildPlaceholderDocument(
 ): PlaceholderDocument {
   const placeholders: PlaceholderEntry[] = [];
   const parts: string[] = [];
+  const segments: PlaceholderDocumentSegment[] = [];
+  let documentOffset = 0;
+  let sourceOffset = 0;
 
   regions.forEach((region, index) => {
+    let part: string;
     if (region.type === "ruby") {
       const id = placeholders.length;
       const placeholder = createPlaceholderToken(id);
       placeholders.push({ id, regionIndex: index, region, placeholder });
-      parts.push(placeholder);
+      part = placeholder;
     } else if (region.type === "html") {
-      parts.push(region.text);
+      part = region.text;
     } else {
-      parts.push(region.text);
+      part = region.text;
     }
+    parts.push(part);
+    segments.push({
+      regionIndex: index,
+      documentStart: documentOffset,
+      documentEnd: documentOffset + part.length,
+      sourceStart: sourceOffset,
+      sourceEnd: sourceOffset + region.text.length,
+    });
+    documentOffset += part.length;
+    sourceOffset += region.text.length;
   });
 
   return {
     html: parts.join(""),
     placeholders,
+    segments,
   };
 }
 
+/**
+ * Maps an offset in the placeholder document back to the template source.
+ * Offsets inside a placeholder token snap to the start of the Ruby region, or
+ * to its end when `preferEnd` is set, since the token has no source equivalent.
+ */
+export function toSourceOffset(
+  document: PlaceholderDocument,
+  documentOffset: number,
+  preferEnd = false,
+): number {
+  const segment = document.segments.find(
+    (candidate) =>
+      documentOffset >= candidate.documentStart &&
+      documentOffset < candidate.documentEnd,
+  );
+  if (!segment) {
+    const last = document.segments[document.segments.length - 1];
+    return last ? last.sourceEnd : 0;
+  }
+  const isPlaceholder = document.placeholders.some(
+    (entry) => entry.regionIndex === segment.regionIndex,
+  );
+  if (isPlaceholder) {
+    return preferEnd && documentOffset > segment.documentStart
+      ? segment.sourceEnd
+      : segment.sourceStart;
+  }
+  return segment.sourceStart + (documentOffset - segment.documentStart);
+}
+
+/**
+ * Inverse of `toSourceOffset`: maps a template offset into the placeholder
+ * document. Offsets inside a Ruby region snap to the start of its token.
+ */
+export function toDocumentOffset(
+  document: PlaceholderDocument,
+  sourceOffset: number,
+): number {
+  const segment = document.segments.find(
+    (candidate) =>
+      sourceOffset >= candidate.sourceStart &&
+      sourceOffset < candidate.sourceEnd,
+  );
+  if (!segment) {
+    const last = document.segments[document.segments.length - 1];
+    return last ? last.documentEnd : 0;
+  }
+  const isPlaceholder = document.placeholders.some(
+    (entry) => entry.regionIndex === segment.regionIndex,
+  );
+  if (isPlaceholder) {
+    return segment.documentStart;
+  }
+  return segment.documentStart + (sourceOffset - segment.sourceStart);
+}
+
 export function restoreFromPlaceholders(
   documentHtml: string,
   placeholders: PlaceholderEntry[],
@@ -0,0 +1,398 @@
+import {
+  createParserSession,
+  type ParsedERB,
+  type RubyBlockAnalysis,
+} from "../parser.js";
+import {
+  formatERB,
+  DEFAULT_FORMATTER_CONFIG,
+  mergeConfig,
+  type FormatterConfig,
+  type FormatterConfigInput,
+  type FormatterDiagnostic,
+} from "./index.js";
+import {
+  analyzePlaceholderDocument,
+  indentsChildren,
+  type HtmlDocumentAnalysis,
+} from "./htmlDocument.js";
+import {
+  buildPlaceholderDocument,
+  toDocumentOffset,
+  toSourceOffset,
+  type PlaceholderDocument,
+} from "./placeholders.js";
+import { createSourceLocator, locateSpan } from "./sourceLocation.js";
+import { computeTextEdits, type TextEdit } from "./textEdits.js";
+
+type SyntaxNode = HtmlDocumentAnalysis["tree"]["rootNode"];
+
+/** Half-open span of UTF-16 offsets into the template source. */
+export interface FormatRange {
+  start: number;
+  end: number;
+}
+
+interface ExpandedRange extends FormatRange {
+  /**
+   * Elements the whole-document printer indents the span by, or null when an
+   * enclosing element keeps its content as written.
+   */
+  elementDepth: number | null;
+}
+
+export interface RangeFormatResult {
+  /** Span that was reformatted, after expanding the requested range. */
+  range: FormatRange;
+  /** Edits against the original source; empty when nothing changed or formatting failed. */
+  edits: TextEdit[];
+  /** The source with `edits` applied. */
+  output: string;
+  /** Diagnostics for the formatted span, located in the original source. */
+  diagnostics: FormatterDiagnostic[];
+  config: FormatterConfig;
+}
+
+/** Range formatting may run for every keystroke in an editor; reuse parsers. */
+const rangeParsers = createParserSession();
+
+/**
+ * Formats only the part of `source` covered by `range`. The range first grows
+ * to the complete sibling elements it touches, then until every Ruby block it
+ * contains is balanced and it starts and ends on line boundaries; when that is
+ * impossible below the root, the whole template is formatted instead.
+ */
+export function formatERBRange(
+  source: string,
+  range: FormatRange,
+  config?: FormatterConfigInput,
+): RangeFormatResult {
+  const parsedTemplates: ParsedERB[] = [];
+  try {
+    return formatRange(source, range, config, (text) => {
+      const parsed = rangeParsers.parse(text);
+      parsedTemplates.push(parsed);
+      return parsed;
+    });
+  } finally {
+    parsedTemplates.forEach(rangeParsers.release);
+  }
+}
+
+function formatRange(
+  source: string,
+  range: FormatRange,
+  config: FormatterConfigInput | undefined,
+  parse: (text: string) => ParsedERB,
+): RangeFormatResult {
+  const start = clampOffset(Math.min(range.start, range.end), source);
+  const end = clampOffset(Math.max(range.start, range.end), source);
+  const locator = createSourceLocator(source);
+  const resolvedConfig = mergeConfig(DEFAULT_FORMATTER_CONFIG, config);
+
+  const parsed = parse(source);
+  const document = buildPlaceholderDocument(parsed.regions);
+  const analysis = analyzePlaceholderDocument(document);
+  let span: ReturnType<typeof expandRange>;
+  try {
+    span = expandRange(
+      analysis.tree.rootNode,
+      document,
+      parsed.rubyBlocks,
+      source,
+      start,
+      end,
+    );
+  } finally {
+    analysis.tree.delete();
+  }
+
+  if (span === "empty") {
+    return {
+      range: { start, end },
+      edits: [],
+      output: source,
+      diagnostics: [],
+      config: resolvedConfig,
+    };
+  }
+
+  if (span === null) {
+    const result = formatERB(parsed, resolvedConfig);
+    const failed = result.diagnostics.some((diag) => diag.severity === "error");
+    const changed = !failed && result.output !== source;
+    return {
+      range: { start: 0, end: source.length },
+      edits: changed ? result.edits : [],
+      output: changed ? result.output : source,
+      diagnostics: result.diagnostics,
+      config: resolvedConfig,
+    };
+  }
+
+  // Format the span as a standalone template, dedented by the indentation of
+  // its first line, then indent the result to the span's depth in the
+  // enclosing elements and Ruby blocks, as formatting the whole document would.
+  const lineStart = source.lastIndexOf("\n", span.start - 1) + 1;
+  const baseIndent = source.slice(lineStart, span.start);
+  const targetIndent =
+    span.elementDepth === null
+      ? baseIndent
+      : indentUnit(resolvedConfig).repeat(
+          span.elementDepth + rubyDepthAt(parsed, span.start),
+        );
+  const spanLines = source.slice(lineStart, span.end).split("\n");
+  const dedentedRows = new Set<number>();
+  const dedented = spanLines
+    .map((line, row) => {
+      if (!baseIndent || !line.startsWith(baseIndent)) return line;
+      dedentedRows.add(row);
+      return line.slice(baseIndent.length);
+    })
+    .join("\n");
+
+  const result = formatERB(parse(dedented), resolvedConfig);
+  const firstRow = locator.rangeAt(lineStart, lineStart).startPosition.row;
+  const diagnostics = result.diagnostics.map((diagnostic) => {
+    if (!diagnostic.range) return { ...diagnostic, index: -1 };
+    const toSource = (position: { row: number; column: number }) =>
+      locator.offsetAt(
+        firstRow + position.row,
+        position.column +
+          (dedentedRows.has(position.row) ? baseIndent.length : 0),
+      );
+    return {
+      ...diagnostic,
+      index: -1,
+      ...locateSpan(
+        locator,
+        toSource(diagnostic.range.startPosition),
+        toSource(diagnostic.range.endPosition),
+      ),
+      ...(diagnostic.related
+        ? {
+            related: diagnostic.related.map(({ message, range }) => {
+              const { range: mapped, location } = locateSpan(
+                locator,
+                toSource(range.startPosition),
+                toSource(range.endPosition),
+              );
+              return { message, range: mapped, location };
+            }),
+          }
+        : {}),
+    };
+  });
+
+  const failed = result.diagnostics.some((diag) => diag.severity === "error");
+  const formatted = result.output
+    .replace(/\r?\n$/, "")
+    .split("\n")
+    .map((line) => (line.trim() ? `${targetIndent}${line}` : line))
+    .join("\n");
+  const original = source.slice(lineStart, span.end);
+  if (failed || formatted === original) {
+    return {
+      range: { start: lineStart, end: span.end },
+      edits: [],
+      output: source,
+      diagnostics,
+      config: resolvedConfig,
+    };
+  }
+
+  const output = `${source.slice(0, lineStart)}${formatted}${source.slice(span.end)}`;
+  return {
+    range: { start: lineStart, end: span.end },
+    edits: computeTextEdits(source, output, [
+      { start: lineStart, end: span.end, newText: formatted },
+    ]),
+    output,
+    diagnostics,
+    config: resolvedConfig,
+  };
+}
+
+/**
+ * Returns the source span of the sibling nodes to format, `null` when only the
+ * whole document will do, or `"empty"` when the range touches no markup.
+ */
+function expandRange(
+  root: SyntaxNode,
+  document: PlaceholderDocument,
+  blocks: RubyBlockAnalysis,
+  source: string,
+  start: number,
+  end: number,
+): ExpandedRange | null | "empty" {
+  const documentStart = toDocumentOffset(document, start);
+  const documentEnd =
+    end > start ? toDocumentOffset(document, end - 1) + 1 : documentStart;
+
+  let container = root;
+  let siblings = contentChildren(root);
+  let hits: number[];
+  for (;;) {
+    hits = [];
+    siblings.forEach((node, index) => {
+      const intersects =
+        documentEnd > documentStart
+          ? node.startIndex < documentEnd && node.endIndex > documentStart
+          : node.startIndex <= documentStart && node.endIndex >= documentEnd;
+      if (intersects) hits.push(index);
+    });
+    if (hits.length !== 1) break;
+    const candidate = siblings[hits[0]];
+    const children = contentChildren(candidate);
+    if (
+      candidate.type !== "element" ||
+      children.length === 0 ||
+      documentStart < children[0].startIndex ||
+      documentEnd > children[children.length - 1].endIndex
+    ) {
+      break;
+    }
+    container = candidate;
+    siblings = children;
+  }
+
+  if (hits.length === 0 && container === root) return "empty";
+
+  let first = hits.length > 0 ? hits[0] : -1;
+  let last = hits.length > 0 ? hits[hits.length - 1] : -1;
+  for (;;) {
+    if (first !== -1) {
+      const spanStart = toSourceOffset(document, siblings[first].startIndex);
+      const spanEnd = toSourceOffset(document, siblings[last].endIndex, true);
+      const balance = measureRubyBalance(document, blocks, spanStart, spanEnd);
+      if (
+        !balance.dipped &&
+        balance.open === 0 &&
+        isLineAligned(source, spanStart, spanEnd)
+      ) {
+        return {
+          start: spanStart,
+          end: lineEnd(source, spanEnd),
+          elementDepth: elementDepth(container),
+        };
+      }
+      if (balance.dipped && first > 0) {
+        first -= 1;
+        continue;
+      }
+      if (balance.open > 0 && last < siblings.length - 1) {
+        last += 1;
+        continue;
+      }
+    }
+    if (container === root) return null;
+
+    const widened = container;
+    container = enclosingContainer(widened) ?? root;
+    siblings = contentChildren(container);
+    first = siblings.findIndex(
+      (node) =>
+        node.startIndex === widened.startIndex &&
+        node.endIndex === widened.endIndex,
+    );
+    if (first === -1) return null;
+    last = first;
+  }
+}
+
+/** Number of elements enclosing the children of `container`, itself included. */
+function elementDepth(container: SyntaxNode): number | null {
+  let depth = 0;
+  for (
+    let current: SyntaxNode | null = container;
+    current;
+    current = current.parent
+  ) {
+    if (current.type !== "element") continue;
+    if (!indentsChildren(current)) return null;
+    depth += 1;
+  }
+  return depth;
+}
+
+/** Ruby block depth in effect at `offset`, after the regions before it. */
+function rubyDepthAt(parsed: ParsedERB, offset: number): number {
+  let depth = 0;
+  parsed.regions.forEach((region, index) => {
+    if (region.range.endIndex <= offset) {
+      depth = parsed.rubyBlocks.depths[index].after;
+    }
+  });
+  return depth;
+}
+
+function indentUnit(config: FormatterConfig): string {
+  return config.indentation.style === "tab"
+    ? "\t"
+    : " ".repeat(config.indentation.size);
+}
+
+function contentChildren(node: SyntaxNode): SyntaxNode[] {
+  const children: SyntaxNode[] = [];
+  for (let i = 0; i < node.namedChildCount; i += 1) {
+    const child = node.namedChild(i);
+    if (child && child.type !== "start_tag" && child.type !== "end_tag") {
+      children.push(child);
+    }
+  }
+  return children;
+}
+
+function enclosingContainer(node: SyntaxNode): SyntaxNode | null {
+  let current = node.parent;
+  while (current && current.type !== "element" && current.parent) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Running block depth of the Ruby regions inside the span: `dipped` means a
+ * closer (`end`, `else`) appears before its opener, `open` counts blocks that
+ * are still open at the end.
+ */
+function measureRubyBalance(
+  document: PlaceholderDocument,
+  blocks: RubyBlockAnalysis,
+  start: number,
+  end: number,
+): { dipped: boolean; open: number } {
+  let depth = 0;
+  let dipped = false;
+  document.placeholders.forEach((entry) => {
+    const segment = document.segments[entry.regionIndex];
+    if (segment.sourceStart < start || segment.sourceEnd > end) return;
+    const { closes, opens } = blocks.depths[entry.regionIndex];
+    depth -= closes;
+    if (depth < 0) {
+      dipped = true;
+      depth = 0;
+    }
+    depth += opens;
+  });
+  return { dipped, open: depth };
+}
+
+function isLineAligned(source: string, start: number, end: number): boolean {
+  const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+  return (
+    !source.slice(lineStart, start).trim() &&
+    !source.slice(end, lineEnd(source, end)).trim()
+  );
+}
+
+/** Offset of the line terminator after `offset`, or the end of the source. */
+function lineEnd(source: string, offset: number): number {
+  const newline = source.indexOf("\n", offset);
+  if (newline === -1) return source.length;
+  return source[newline - 1] === "\r" ? newline - 1 : newline;
+}
+
+function clampOffset(offset: number, source: string): number {
+  return Math.max(0, Math.min(Math.trunc(offset), source.length));
+}
@@ -0,0 +1,163 @@
+import type { ParsedERB, RubyBlock, RubyBlockDepth } from "../parser.js";
+import type { HtmlDocumentAnalysis } from "./htmlDocument.js";
+import type { FormatterDiagnostic } from "./index.js";
+import { createSourceLocator, locateSpan } from "./sourceLocation.js";
+
+/**
+ * Reports Ruby blocks that do not pair up across the template's directives:
+ * an `end` (or `else`, `}`) with no block open, and blocks still open when
+ * the template ends, which Ruby rejects at render time with `unexpected end`
+ * or `unexpected end-of-input`. Each error also points at a second location:
+ * the opener of the block closed last before a stray closer, or the end of
+ * the template for an unclosed block. `formatERB` includes these diagnostics;
+ * this function runs the check without formatting.
+ */
+export function validateRubyBlocks(parsed: ParsedERB): FormatterDiagnostic[] {
+  const { issues } = parsed.rubyBlocks;
+  if (issues.length === 0) return [];
+
+  const source = parsed.regions.map((region) => region.text).join("");
+  const locator = createSourceLocator(source);
+  const locateRegion = (regionIndex: number) => {
+    const { range } = parsed.regions[regionIndex];
+    return locateSpan(locator, range.startIndex, range.endIndex);
+  };
+
+  return issues.map((issue): FormatterDiagnostic => {
+    let related: FormatterDiagnostic["related"];
+    if (issue.kind === "unclosed-block") {
+      const { range, location } = locateSpan(
+        locator,
+        source.length,
+        source.length,
+      );
+      related = [
+        {
+          message: "the template ends here without closing it",
+          range,
+          location,
+        },
+      ];
+    } else if (issue.relatedRegionIndex !== null) {
+      const { range, location } = locateRegion(issue.relatedRegionIndex);
+      related = [
+        {
+          message: "the last block closed before it opens here",
+          range,
+          location,
+        },
+      ];
+    }
+    return {
+      index: issue.regionIndex,
+      severity: "error",
+      code:
+        issue.kind === "unclosed-block"
+          ? "ruby-unclosed-block"
+          : "ruby-unexpected-closer",
+      message: issue.message,
+      ...locateRegion(issue.regionIndex),
+      ...(related ? { related } : {}),
+    };
+  });
+}
+
+type SyntaxNode = HtmlDocumentAnalysis["tree"]["rootNode"];
+
+/** Node types that delimit where a directive sits in the markup. */
+const HTML_CONTAINER_TYPES = new Set([
+  "element",
+  "start_tag",
+  "end_tag",
+  "self_closing_tag",
+  "script_element",
+  "style_element",
+]);
+
+/**
+ * Finds Ruby blocks whose directives do not all sit directly in the same
+ * HTML element, as in `<% if x %><div><% end %></div>`, where the block and
+ * the element overlap instead of nesting. Directives inside the same tag
+ * (attribute conditionals) count as the same place. Returns nothing when the
+ * markup has parse errors, since element boundaries are unreliable then.
+ */
+export function findInterleavedBlocks(
+  parsed: ParsedERB,
+  analysis: HtmlDocumentAnalysis,
+): RubyBlock[] {
+  if (analysis.tree.rootNode.hasError) return [];
+  const containers = new Map<number, string>();
+  analysis.placeholders.forEach(({ entry, node }) => {
+    let container: SyntaxNode | null = node;
+    while (container?.parent && !HTML_CONTAINER_TYPES.has(container.type)) {
+      container = container.parent;
+    }
+    const key = container
+      ? `${container.type}:${container.startIndex}:${container.endIndex}`
+      : "";
+    containers.set(entry.regionIndex, key);
+  });
+  return parsed.rubyBlocks.blocks.filter((block) => {
+    const opener = containers.get(block.regionIndexes[0]);
+    return block.regionIndexes.some(
+      (regionIndex) => containers.get(regionIndex) !== opener,
+    );
+  });
+}
+
+/**
+ * One warning per interleaved block, at its opener, with the branches and
+ * closer that sit elsewhere as related locations.
+ */
+export function interleavedBlockDiagnostics(
+  parsed: ParsedERB,
+  blocks: RubyBlock[],
+): FormatterDiagnostic[] {
+  if (blocks.length === 0) return [];
+  const source = parsed.regions.map((region) => region.text).join("");
+  const locator = createSourceLocator(source);
+  const locateRegion = (regionIndex: number) => {
+    const { range } = parsed.regions[regionIndex];
+    return locateSpan(locator, range.startIndex, range.endIndex);
+  };
+
+  return blocks.map(({ keyword, regionIndexes: [opener, ...rest] }) => ({
+    index: opener,
+    severity: "warning",
+    code: "ruby-block-crosses-element",
+    message: `\`${keyword}\` block and HTML elements overlap instead of nesting; its directives were left as written`,
+    ...locateRegion(opener),
+    related: rest.map((regionIndex, index) => {
+      const { range, location } = locateRegion(regionIndex);
+      const role = index === rest.length - 1 ? "closes" : "continues";
+      return {
+        message: `\`${parsed.regions[regionIndex].text.trim()}\` ${role} the block here`,
+        range,
+        location,
+      };
+    }),
+  }));
+}
+
+/**
+ * `depths` as if `blocks` were not blocks, so the markup between their
+ * directives is not indented for them.
+ */
+export function withoutBlocks(
+  depths: RubyBlockDepth[],
+  blocks: RubyBlock[],
+): RubyBlockDepth[] {
+  if (blocks.length === 0) return depths;
+  const adjusted = depths.map((depth) => ({ ...depth }));
+  blocks.forEach(({ regionIndexes }) => {
+    const branches = new Set(regionIndexes);
+    const first = regionIndexes[0];
+    const last = regionIndexes[regionIndexes.length - 1];
+    for (let index = first; index < last; index += 1) {
+      // Branches already sit at the block's own level.
+      if (index !== first && !branches.has(index)) adjusted[index].depth -= 1;
+      adjusted[index].after -= 1;
+    }
+  });
+  return adjusted;
+}
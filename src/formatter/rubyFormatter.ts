@@ -1,4 +1,4 @@
-import type { RubyRegion } from "../parser.js";
+import { getRubyParser, type RubyRegion } from "../parser.js";
 import type { FormatterConfig } from "./index.js";
 
 type WrappedLine = {
@@ -6,6 +6,9 @@ type WrappedLine = {
   extraIndent: number;
 };
 
+type RubyTree = NonNullable<RubyRegion["tree"]>;
+type SyntaxNode = RubyTree["rootNode"];
+
 const BLOCK_START_KEYWORDS = new Set([
   "if",
   "unless",
@@ -29,9 +32,76 @@ const BLOCK_MIDDLE_KEYWORDS = new Set([
 ]);
 const BLOCK_END_KEYWORDS = new Set(["end"]);
 
+/** Nodes whose lines after the first are indented one level (`ast` mode). */
+const AST_INDENT_NODE_TYPES = new Set([
+  "if",
+  "unless",
+  "while",
+  "until",
+  "for",
+  "case",
+  "case_match",
+  "begin",
+  "class",
+  "module",
+  "method",
+  "singleton_method",
+  "singleton_class",
+  "do_block",
+  "block",
+  "hash",
+  "array",
+  "argument_list",
+  "method_parameters",
+  "lambda_parameters",
+  "parenthesized_statements",
+  "element_reference",
+  "assignment",
+  "operator_assignment",
+  "binary",
+  "conditional",
+  "pair",
+]);
+
+/** Tokens that close or continue an indented node and sit at its level. */
+const AST_OUTDENT_TOKENS = new Set([
+  "end",
+  "}",
+  ")",
+  "]",
+  "else",
+  "elsif",
+  "when",
+  "in",
+  "rescue",
+  "ensure",
+]);
+
+/** Nodes printed exactly as written, since their text may span lines. */
+const AST_VERBATIM_NODE_TYPES = new Set([
+  "string",
+  "heredoc_body",
+  "regex",
+  "subshell",
+  "string_array",
+  "symbol_array",
+  "delimited_symbol",
+  "comment",
+]);
+
+/** Wrapping one argument list can leave nested ones too long; stop eventually. */
+const MAX_AST_WRAP_PASSES = 8;
+
+/**
+ * Renders a directive with its Ruby code formatted. `column` is where the
+ * directive starts in the output; when it is known, long logic and output
+ * directives are wrapped so they fit the Ruby line width from that column.
+ * Without it, output directives only have their whitespace normalized.
+ */
 export function renderRubyRegion(
   region: RubyRegion,
   config: FormatterConfig,
+  column?: number,
 ): string {
   const open = region.delimiters.open;
   const close = region.delimiters.close;
@@ -43,14 +113,24 @@ export function renderRubyRegion(
 
   const formatMode = config.ruby.format ?? "heuristic";
   const isLogicLike = region.flavor === "logic" || region.flavor === "unknown";
+  const isOutput = region.flavor === "output" && column !== undefined;
   const shouldFormat =
     formatMode !== "none" &&
-    isLogicLike &&
+    (isLogicLike || isOutput) &&
     region.tree !== null &&
     rawCode.trim().length > 0;
 
   const formattedBody = shouldFormat
-    ? formatRubyCode(rawCode, config)
+    ? formatRubyCode(
+        rawCode,
+        column === undefined
+          ? config
+          : withRubyLineWidth(
+              config,
+              directiveBodyWidth(rawCode.trim(), open, close, column, config),
+            ),
+        region.tree,
+      )
     : normalizeRubyInlineWhitespace(rawCode);
 
   if (!formattedBody.trim()) {
@@ -58,14 +138,121 @@ export function renderRubyRegion(
   }
 
   if (formattedBody.includes("\n")) {
-    const body = trimTrailingNewlines(formattedBody);
+    // Formatted code, such as a wrapped call, is indented one level past the
+    // delimiters.
+    const indent = shouldFormat ? indentUnit(config) : "";
+    const trimmedBody = trimTrailingNewlines(formattedBody);
+    const verbatimRows = verbatimRubyRows(trimmedBody, config);
+    const body = trimmedBody
+      .split("\n")
+      .map((line, row) =>
+        line.trim() && !verbatimRows.has(row) ? `${indent}${line}` : line,
+      )
+      .join("\n");
     return `${open}\n${body}\n${close}`;
   }
 
   return `${open} ${formattedBody} ${close}`;
 }
 
-export function formatRubyCode(code: string, config: FormatterConfig): string {
+/**
+ * Rows of formatted `code` that the AST printer copies with their source
+ * columns: heredoc bodies and their terminators. Re-indenting them would move
+ * them further on every run, so callers leave these rows as they are. Empty
+ * unless `ruby.format` is `"ast"`; the heuristics re-indent heredocs like
+ * other lines.
+ */
+export function verbatimRubyRows(
+  code: string,
+  config: FormatterConfig,
+): Set<number> {
+  const rows = new Set<number>();
+  if (config.ruby.format !== "ast") return rows;
+  // `<<~ID`, `<<-ID`, or `<<ID`, with a quoted ID masked as a literal.
+  const opener = new RegExp(
+    `(?:^|[^\\w)\\]}])\\s*<<([~-]?)([A-Za-z_]\\w*|${LITERAL_MARKER}(\\d+)${LITERAL_MARKER})`,
+    "g",
+  );
+  const pending: { id: string; indented: boolean }[] = [];
+  code.split("\n").forEach((line, row) => {
+    if (pending.length > 0) {
+      rows.add(row);
+      const { id, indented } = pending[0];
+      if ((indented ? line.trim() : line.replace(/\r$/, "")) === id) {
+        pending.shift();
+      }
+      return;
+    }
+    const { masked, literals } = maskRubyLiterals(line);
+    for (const match of masked.matchAll(opener)) {
+      const id =
+        match[3] === undefined
+          ? match[2]
+          : literals[Number(match[3])].slice(1, -1);
+      pending.push({ id, indented: match[1] !== "" });
+    }
+  });
+  return rows;
+}
+
+/**
+ * Width left for the code of a directive starting at `column`: code on one
+ * line shares it with the delimiters, while multi-line code is printed on its
+ * own lines one level past the directive's indentation.
+ */
+function directiveBodyWidth(
+  code: string,
+  open: string,
+  close: string,
+  column: number,
+  config: FormatterConfig,
+): number {
+  const lineWidth =
+    config.ruby.lineWidth ?? config.html.lineWidth ?? Number.POSITIVE_INFINITY;
+  const delimiters = code.includes("\n")
+    ? indentUnit(config).length
+    : open.length + close.length + 2;
+  return Math.max(1, lineWidth - column - delimiters);
+}
+
+function indentUnit(config: FormatterConfig): string {
+  return config.indentation.style === "tab"
+    ? "\t"
+    : " ".repeat(Math.max(1, config.indentation.size));
+}
+
+function withRubyLineWidth(
+  config: FormatterConfig,
+  lineWidth: number,
+): FormatterConfig {
+  return { ...config, ruby: { ...config.ruby, lineWidth } };
+}
+
+/**
+ * Formats the Ruby code of a directive. With `ruby.format: "ast"` the code is
+ * printed from its syntax tree (`tree`, or a fresh parse of `code`); code that
+ * does not parse on its own, such as `if x` whose `end` lives in a later
+ * directive, falls back to the line-based heuristics.
+ */
+export function formatRubyCode(
+  code: string,
+  config: FormatterConfig,
+  tree?: RubyTree | null,
+): string {
+  if (config.ruby.format === "ast") {
+    const formatted = formatRubyFromTree(code, config, tree);
+    if (formatted !== null) return formatted;
+  }
+  return formatRubyLines(code, config);
+}
+
+/**
+ * Formats code line by line: leading keywords drive the block indentation,
+ * and lines inside open brackets or after a trailing comma are continuations,
+ * indented by `indentation.continuation` per level so wrapped arguments keep
+ * their place when formatted again.
+ */
+function formatRubyLines(code: string, config: FormatterConfig): string {
   const normalized = code.replace(/\r\n/g, "\n");
   const rawLines = normalized.split("\n");
   const indentSize = Math.max(1, config.indentation.size);
@@ -75,6 +262,8 @@ export function formatRubyCode(code: string, config: FormatterConfig): string {
     config.ruby.lineWidth ?? config.html.lineWidth ?? Number.POSITIVE_INFINITY;
 
   let indentLevel = 0;
+  let bracketDepth = 0;
+  let continued = false;
   const output: string[] = [];
 
   rawLines.forEach((rawLine) => {
@@ -94,30 +283,43 @@ export function formatRubyCode(code: string, config: FormatterConfig): string {
       return;
     }
 
-    const dedentBefore = shouldDedentBefore(bodyTrimmed);
+    const continuationLevels =
+      Math.max(0, bracketDepth - countLeadingClosers(bodyTrimmed)) +
+      (continued ? 1 : 0);
+    const isContinuation = continuationLevels > 0;
+
+    const dedentBefore = !isContinuation && shouldDedentBefore(bodyTrimmed);
     if (dedentBefore) {
       indentLevel = Math.max(0, indentLevel - 1);
     }
 
     const normalizedBody = normalizeRubyBody(bodyTrimmed);
+    const baseWidth =
+      indentLevel * indentSize + continuationLevels * continuationWidth;
     const wrappedLines = wrapRubyBody(
       normalizedBody,
       comment,
-      indentLevel,
+      baseWidth,
       continuationWidth,
-      indentStyle,
-      indentSize,
       configuredWidth,
     );
 
-    wrappedLines.forEach((line, index) => {
-      const extraIndent = index === 0 ? line.extraIndent : line.extraIndent;
-      const indentWidth = indentLevel * indentSize + extraIndent;
+    wrappedLines.forEach((line) => {
+      const indentWidth = baseWidth + line.extraIndent;
       const indent = widthToIndent(indentWidth, indentStyle, indentSize);
       output.push(`${indent}${line.text}`);
     });
 
-    if (shouldIndentAfter(bodyTrimmed)) {
+    bracketDepth = Math.max(0, bracketDepth + bracketDelta(normalizedBody));
+    if (bracketDepth === 0) {
+      continued = normalizedBody.endsWith(",");
+    }
+
+    // The last line of a wrapped call can still open a `do` block.
+    const opensBlock = isContinuation
+      ? opensDoBlock(bodyTrimmed)
+      : shouldIndentAfter(bodyTrimmed);
+    if (opensBlock) {
       indentLevel += 1;
     }
   });
@@ -125,9 +327,310 @@ export function formatRubyCode(code: string, config: FormatterConfig): string {
   return output.join("\n");
 }
 
+/**
+ * Prints `code` from its syntax tree: every token is kept, runs of whitespace
+ * between tokens on a line become one space (plus one after commas), and each
+ * line is indented by the blocks, brackets, and multi-line method chains that
+ * enclose it. Strings, heredocs, regexes, and comments are copied verbatim.
+ * Argument lists on lines longer than the Ruby line width are broken one
+ * argument per line and the result is parsed and printed again, so the output
+ * is stable when formatted a second time. Returns null when `code` has syntax
+ * errors.
+ */
+function formatRubyFromTree(
+  code: string,
+  config: FormatterConfig,
+  tree?: RubyTree | null,
+): string | null {
+  const maxWidth =
+    config.ruby.lineWidth ?? config.html.lineWidth ?? Number.POSITIVE_INFINITY;
+  let source = code;
+  let current = tree ?? null;
+  let owned: RubyTree | null = null;
+  try {
+    if (!current) {
+      owned = getRubyParser().parse(ensureTrailingNewline(source));
+      current = owned;
+    }
+    if (!current || current.rootNode.hasError) return null;
+
+    for (let pass = 0; ; pass += 1) {
+      const printed = printRubyTree(
+        source,
+        current.rootNode,
+        config,
+        pass < MAX_AST_WRAP_PASSES ? maxWidth : Number.POSITIVE_INFINITY,
+      );
+      if (!printed.wrapped) return printed.text;
+
+      const reparsed = getRubyParser().parse(
+        ensureTrailingNewline(printed.text),
+      );
+      if (!reparsed || reparsed.rootNode.hasError) {
+        reparsed?.delete();
+        return printRubyTree(
+          source,
+          current.rootNode,
+          config,
+          Number.POSITIVE_INFINITY,
+        ).text;
+      }
+      owned?.delete();
+      owned = reparsed;
+      current = reparsed;
+      source = printed.text;
+    }
+  } finally {
+    owned?.delete();
+  }
+}
+
+interface PrintedRubyLine {
+  /** Tokens and verbatim nodes on the line, in source order. */
+  atoms: SyntaxNode[];
+  /** Blank lines that preceded it in the source. */
+  blankLinesBefore: number;
+  /** Whether the line ends with a `\` continuation. */
+  continued: boolean;
+}
+
+function printRubyTree(
+  source: string,
+  root: SyntaxNode,
+  config: FormatterConfig,
+  maxWidth: number,
+): { text: string; wrapped: boolean } {
+  const indentSize = Math.max(1, config.indentation.size);
+  const indentStyle = config.indentation.style;
+  const lines = groupAtomsIntoLines(source, collectRubyAtoms(root));
+  const output: string[] = [];
+  let wrapped = false;
+
+  lines.forEach((line) => {
+    for (let i = 0; i < line.blankLinesBefore; i += 1) output.push("");
+    const indent = widthToIndent(
+      astIndentDepth(line.atoms[0]) * indentSize,
+      indentStyle,
+      indentSize,
+    );
+    const suffix = line.continued ? " \\" : "";
+    const text = `${indent}${joinAtoms(source, line.atoms)}${suffix}`;
+    const firstLineLength = text.split("\n")[0].length;
+    const breaks =
+      firstLineLength > maxWidth ? findArgumentBreaks(line.atoms) : null;
+    if (!breaks) {
+      output.push(text);
+      return;
+    }
+
+    // Indentation of the broken lines is settled by the next pass.
+    wrapped = true;
+    let chunk: SyntaxNode[] = [];
+    const pieces: string[] = [];
+    line.atoms.forEach((atom) => {
+      if (breaks.before.has(atom.id) && chunk.length > 0) {
+        pieces.push(joinAtoms(source, chunk));
+        chunk = [];
+      }
+      chunk.push(atom);
+      if (breaks.after.has(atom.id)) {
+        pieces.push(joinAtoms(source, chunk));
+        chunk = [];
+      }
+    });
+    if (chunk.length > 0) pieces.push(joinAtoms(source, chunk));
+    output.push(`${indent}${pieces.join("\n")}${suffix}`);
+  });
+
+  return { text: output.join("\n"), wrapped };
+}
+
+function collectRubyAtoms(root: SyntaxNode): SyntaxNode[] {
+  const atoms: SyntaxNode[] = [];
+  const visit = (node: SyntaxNode) => {
+    if (node.childCount === 0 || AST_VERBATIM_NODE_TYPES.has(node.type)) {
+      if (node.endIndex > node.startIndex) atoms.push(node);
+      return;
+    }
+    node.children.forEach((child) => {
+      if (child) visit(child);
+    });
+  };
+  visit(root);
+  return atoms.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+function groupAtomsIntoLines(
+  source: string,
+  atoms: SyntaxNode[],
+): PrintedRubyLine[] {
+  const lines: PrintedRubyLine[] = [];
+  let previous: SyntaxNode | null = null;
+  atoms.forEach((atom) => {
+    const current = lines[lines.length - 1];
+    if (!previous || atom.startPosition.row > previous.endPosition.row) {
+      const gap = previous
+        ? source.slice(previous.endIndex, atom.startIndex)
+        : "";
+      if (current) current.continued = gap.includes("\\");
+      lines.push({
+        atoms: [atom],
+        blankLinesBefore: Math.max(0, gap.split("\n").length - 2),
+        continued: false,
+      });
+    } else {
+      current.atoms.push(atom);
+    }
+    previous = atom;
+  });
+  return lines;
+}
+
+function joinAtoms(source: string, atoms: SyntaxNode[]): string {
+  let text = "";
+  atoms.forEach((atom, index) => {
+    const previous = atoms[index - 1];
+    if (previous) {
+      const emptyBraces = previous.type === "{" && atom.type === "}";
+      const spaced =
+        atom.type !== "," &&
+        !emptyBraces &&
+        (previous.type === "," ||
+          isSpacedOperator(previous) ||
+          isSpacedOperator(atom) ||
+          isLabelColon(previous) ||
+          isPaddedBrace(previous, "{") ||
+          isPaddedBrace(atom, "}") ||
+          previous.endIndex < atom.startIndex);
+      if (spaced) text += " ";
+    }
+    text += source.slice(atom.startIndex, atom.endIndex);
+  });
+  return text;
+}
+
+/** Assignment, binary, `=>`, and ternary operators get a space on each side. */
+function isSpacedOperator(node: SyntaxNode): boolean {
+  const parent = node.parent;
+  if (node.isNamed || !parent) return false;
+  switch (parent.type) {
+    case "assignment":
+      return node.type === "=";
+    case "pair":
+      return node.type === "=>";
+    case "conditional":
+      return node.type === "?" || node.type === ":";
+    case "binary":
+    case "operator_assignment":
+      return parent.childForFieldName("operator")?.id === node.id;
+    default:
+      return false;
+  }
+}
+
+/** The `:` after a keyword-argument or hash label (`class: "btn"`). */
+function isLabelColon(node: SyntaxNode): boolean {
+  return node.type === ":" && node.parent?.type === "pair";
+}
+
+/** Braces of hashes and blocks are padded with a space inside. */
+function isPaddedBrace(node: SyntaxNode, brace: "{" | "}"): boolean {
+  const parentType = node.parent?.type;
+  return (
+    node.type === brace && (parentType === "hash" || parentType === "block")
+  );
+}
+
+/**
+ * Indent level of a line starting with `node`: one per distinct earlier row
+ * that opens an enclosing block or bracket, one per enclosing method call
+ * whose `.` starts a line, minus one when the line starts with a closer or a
+ * branch keyword (`end`, `}`, `else`, `when`, ...).
+ */
+function astIndentDepth(node: SyntaxNode): number {
+  const row = node.startPosition.row;
+  const blockRows = new Set<number>();
+  const chainRows = new Set<number>();
+  for (
+    let ancestor = node.parent;
+    ancestor !== null;
+    ancestor = ancestor.parent
+  ) {
+    const startRow = ancestor.startPosition.row;
+    if (startRow < row && AST_INDENT_NODE_TYPES.has(ancestor.type)) {
+      blockRows.add(startRow);
+    }
+    if (ancestor.type === "call") {
+      const operator = ancestor.childForFieldName("operator");
+      const receiver = ancestor.childForFieldName("receiver");
+      if (
+        operator &&
+        receiver &&
+        operator.startPosition.row > receiver.endPosition.row &&
+        operator.startPosition.row <= row
+      ) {
+        chainRows.add(operator.startPosition.row);
+      }
+    }
+  }
+  const closes =
+    !node.isNamed && AST_OUTDENT_TOKENS.has(node.type) && blockRows.size > 0;
+  return blockRows.size + chainRows.size - (closes ? 1 : 0);
+}
+
+/**
+ * Break points that put each argument of the outermost argument list on
+ * `atoms`' line on its own line, or null when there is no list with at least
+ * two arguments or the line has a modifier. Without parentheses the first
+ * argument stays after the method name.
+ */
+function findArgumentBreaks(
+  atoms: SyntaxNode[],
+): { before: Set<number>; after: Set<number> } | null {
+  // A modifier (`x if y`) must stay on the line of the code it guards.
+  if (atoms.some((atom) => atom.parent?.type === `${atom.type}_modifier`)) {
+    return null;
+  }
+  const onLine = new Set(atoms.map((atom) => atom.id));
+  for (const atom of atoms) {
+    const list = atom.parent;
+    if (list?.type !== "argument_list") continue;
+    const children = list.children.filter(
+      (child): child is SyntaxNode => child !== null,
+    );
+    const commas = children.filter((child) => child.type === ",");
+    if (commas.length === 0) continue;
+    const commaIds = commas.map((comma) => comma.id);
+    if (atom.type === ",") {
+      if (children[0].type === "(" || !commaIds.every((id) => onLine.has(id))) {
+        continue;
+      }
+      return { before: new Set(), after: new Set(commaIds) };
+    }
+    const close = children[children.length - 1];
+    if (atom.type !== "(" || close?.type !== ")" || !onLine.has(close.id)) {
+      continue;
+    }
+    return {
+      before: new Set([close.id]),
+      after: new Set([atom.id, ...commaIds]),
+    };
+  }
+  return null;
+}
+
+function ensureTrailingNewline(code: string): string {
+  return code.endsWith("\n") ? code : `${code}\n`;
+}
+
+/**
+ * Normalizes the spacing of one line of code: single spaces between tokens
+ * and after keywords and commas. String, regex, and `%` literals are left as
+ * written.
+ */
 function normalizeRubyBody(body: string): string {
-  const collapsed = collapseWhitespaceOutsideStrings(body);
-  let result = collapsed;
+  const { masked, literals } = maskRubyLiterals(body);
+  let result = collapseWhitespaceOutsideStrings(masked);
 
   const keywordsNeedingSpace = [
     "if",
@@ -150,58 +653,226 @@ function normalizeRubyBody(body: string): string {
   });
 
   result = result.replace(/,\s*/g, ", ");
-  return result.trim();
+
+  return unmaskRubyLiterals(result, literals).trim();
 }
 
-function splitComment(line: string): { body: string; comment: string | null } {
-  let inSingle = false;
-  let inDouble = false;
-  let escaped = false;
+/**
+ * Spaces one argument of a call that is being wrapped, with its literals
+ * masked: one space inside non-empty hash and block braces
+ * (`{ turbo: false }`), one space after labels that start the argument or
+ * follow `{`, `(`, or a comma (`class: "btn"`), and around `=>`.
+ */
+function spaceWrappedArgument(argument: string): string {
+  return argument
+    .replace(/\s*=>\s*/g, " => ")
+    .replace(/(^|[,({]\s*)([A-Za-z_]\w*[?!]?):(?![:\s])/g, "$1$2: ")
+    .replace(/\{\s*\}/g, "{}")
+    .replace(/\{(?=[^\s}])/g, "{ ")
+    .replace(/([^\s{])\}/g, "$1 }");
+}
 
-  for (let i = 0; i < line.length; i += 1) {
-    const char = line[i];
+/**
+ * Whether `masked` has an `if`, `unless`, `while`, `until`, or `rescue`
+ * modifier outside brackets. Ruby requires the modifier on the line of the
+ * code it guards, so such lines are never wrapped.
+ */
+function hasModifierClause(masked: string): boolean {
+  let depth = 0;
+  for (let i = 1; i < masked.length; i += 1) {
+    const char = masked[i];
+    if (char === "(" || char === "[" || char === "{") depth += 1;
+    if (char === ")" || char === "]" || char === "}") {
+      depth = Math.max(0, depth - 1);
+    }
+    if (
+      depth === 0 &&
+      masked[i - 1] === " " &&
+      /^(?:if|unless|while|until|rescue)\b/.test(masked.slice(i))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
 
-    if (inSingle) {
-      if (!escaped && char === "'") {
-        inSingle = false;
-      }
-      escaped = !escaped && char === "\\";
+const LITERAL_MARKER = "\u0000";
+const PERCENT_LITERAL_PAIRS: Record<string, string> = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+  "<": ">",
+};
+
+/**
+ * Replaces quoted, regex, and `%` literals in `text` with numbered markers so spacing
+ * rules can run on the code around them; `unmaskRubyLiterals` puts them back.
+ */
+function maskRubyLiterals(text: string): {
+  masked: string;
+  literals: string[];
+} {
+  const literals: string[] = [];
+  let masked = "";
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    let end = -1;
+    if (char === "'" || char === '"') {
+      end = findQuoteEnd(text, index);
+    } else if (char === "%" && !/[\w)\]}]\s*$/.test(masked)) {
+      end = findPercentLiteralEnd(text, index);
+    } else if (char === "/" && startsRegexLiteral(masked, text[index + 1])) {
+      end = findRegexEnd(text, index);
+    }
+    if (end === -1) {
+      masked += char;
+      index += 1;
       continue;
     }
+    masked += `${LITERAL_MARKER}${literals.length}${LITERAL_MARKER}`;
+    literals.push(text.slice(index, end + 1));
+    index = end + 1;
+  }
 
-    if (inDouble) {
-      if (!escaped && char === '"') {
-        inDouble = false;
-      } else if (!escaped && char === "#" && line[i + 1] === "{") {
-        const { endIndex } = extractInterpolationExpression(line, i + 2);
-        i = endIndex;
-        escaped = false;
-        continue;
-      }
-      escaped = !escaped && char === "\\";
+  return { masked, literals };
+}
+
+function unmaskRubyLiterals(masked: string, literals: string[]): string {
+  return masked.replace(
+    new RegExp(`${LITERAL_MARKER}(\\d+)${LITERAL_MARKER}`, "g"),
+    (_, literalIndex: string) => literals[Number(literalIndex)],
+  );
+}
+
+/**
+ * Index of the quote closing the literal opened at `start`; an unterminated
+ * literal runs to the end of `text`, as it continues on the next line.
+ */
+function findQuoteEnd(text: string, start: number): number {
+  const quote = text[start];
+  let escaped = false;
+  for (let i = start + 1; i < text.length; i += 1) {
+    const char = text[i];
+    if (escaped) {
+      escaped = false;
+      continue;
+    }
+    if (char === "\\") {
+      escaped = true;
       continue;
     }
+    if (quote === '"' && char === "#" && text[i + 1] === "{") {
+      i = extractInterpolationExpression(text, i + 2).endIndex;
+      continue;
+    }
+    if (char === quote) return i;
+  }
+  return text.length - 1;
+}
 
-    if (char === "'") {
-      inSingle = true;
+/**
+ * Whether a `/` after `before` opens a regex rather than dividing: at the
+ * start of an expression, after an operator or keyword, or as the first
+ * argument of a call without parentheses (`gsub /x/`), as Ruby reads it.
+ */
+function startsRegexLiteral(before: string, next: string | undefined): boolean {
+  const trimmed = before.trimEnd();
+  if (!trimmed || /[(,[{=~!&|?:;+\-*<>^]$/.test(trimmed)) return true;
+  if (
+    /(?:^|[^\w.])(?:if|unless|elsif|when|and|or|not|return|while|until|then)$/.test(
+      trimmed,
+    )
+  ) {
+    return true;
+  }
+  return (
+    /[A-Za-z_]\w*[?!]? $/.test(before) &&
+    next !== undefined &&
+    !/[\s=]/.test(next)
+  );
+}
+
+/** Index of the slash closing the regex opened at `start` (or of the end). */
+function findRegexEnd(text: string, start: number): number {
+  let escaped = false;
+  let inClass = false;
+  for (let i = start + 1; i < text.length; i += 1) {
+    const char = text[i];
+    if (escaped) {
       escaped = false;
       continue;
     }
+    if (char === "\\") {
+      escaped = true;
+      continue;
+    }
+    if (char === "#" && text[i + 1] === "{") {
+      i = extractInterpolationExpression(text, i + 2).endIndex;
+      continue;
+    }
+    if (char === "[") inClass = true;
+    if (char === "]") inClass = false;
+    if (char === "/" && !inClass) {
+      // Keep trailing flags (`/x/i`) with the literal.
+      while (/[imxounse]/.test(text[i + 1] ?? "")) i += 1;
+      return i;
+    }
+  }
+  return text.length - 1;
+}
 
-    if (char === '"') {
-      inDouble = true;
+/** Index of the delimiter closing a `%w[...]`-style literal, or -1. */
+function findPercentLiteralEnd(text: string, start: number): number {
+  const match = text.slice(start).match(/^%[qQwWiIrsx]?([^\w\s])/);
+  if (!match) return -1;
+  const open = match[1];
+  const close = PERCENT_LITERAL_PAIRS[open] ?? open;
+  let depth = 0;
+  let escaped = false;
+  for (let i = start + match[0].length; i < text.length; i += 1) {
+    const char = text[i];
+    if (escaped) {
       escaped = false;
       continue;
     }
-
-    if (char === "#") {
-      const comment = line.slice(i).trim();
-      const body = line.slice(0, i).trimEnd();
-      return { body, comment };
+    if (char === "\\") {
+      escaped = true;
+      continue;
     }
+    if (char === close && depth === 0) return i;
+    if (close !== open && char === open) depth += 1;
+    if (close !== open && char === close) depth -= 1;
   }
+  return -1;
+}
+
+/** Net number of brackets `body` leaves open, ignoring literals. */
+function bracketDelta(body: string): number {
+  const { masked } = maskRubyLiterals(body);
+  let delta = 0;
+  for (const char of masked) {
+    if (char === "(" || char === "[" || char === "{") delta += 1;
+    if (char === ")" || char === "]" || char === "}") delta -= 1;
+  }
+  return delta;
+}
+
+function countLeadingClosers(body: string): number {
+  return body.match(/^[)\]}]*/)?.[0].length ?? 0;
+}
 
-  return { body: line.trimEnd(), comment: null };
+function splitComment(line: string): { body: string; comment: string | null } {
+  const { masked, literals } = maskRubyLiterals(line);
+  const hashIndex = masked.indexOf("#");
+  if (hashIndex === -1) {
+    return { body: line.trimEnd(), comment: null };
+  }
+  return {
+    body: unmaskRubyLiterals(masked.slice(0, hashIndex), literals).trimEnd(),
+    comment: unmaskRubyLiterals(masked.slice(hashIndex), literals).trim(),
+  };
 }
 
 function collapseWhitespaceOutsideStrings(text: string): string {
@@ -283,17 +954,24 @@ function collapseWhitespaceOutsideStrings(text: string): string {
   return pendingSpace ? `${result} ` : result;
 }
 
+/**
+ * Breaks a line longer than `maxWidth` (counting the `indentWidth` it is
+ * printed at) one argument per line: inside the parentheses of a call, or
+ * after the first argument of a call without parentheses
+ * (`link_to "x",` followed by the remaining arguments).
+ */
 function wrapRubyBody(
   body: string,
   comment: string | null,
-  indentLevel: number,
+  indentWidth: number,
   continuationWidth: number,
-  indentStyle: FormatterConfig["indentation"]["style"],
-  indentSize: number,
   maxWidth: number,
 ): WrappedLine[] {
   const trimmedBody = body.trim();
-  if (!Number.isFinite(maxWidth) || trimmedBody.length <= maxWidth) {
+  if (
+    !Number.isFinite(maxWidth) ||
+    indentWidth + trimmedBody.length <= maxWidth
+  ) {
     return [
       {
         text: appendComment(trimmedBody, comment),
@@ -302,7 +980,20 @@ function wrapRubyBody(
     ];
   }
 
-  const split = splitArgumentsForWrap(trimmedBody);
+  // Split the code around literals, so commas and parentheses inside strings
+  // and regexes are never break points.
+  const { masked, literals } = maskRubyLiterals(trimmedBody);
+  const maskedSplit = hasModifierClause(masked)
+    ? null
+    : (splitCommandArgumentsForWrap(masked) ?? splitArgumentsForWrap(masked));
+  const split = maskedSplit && {
+    ...maskedSplit,
+    prefix: unmaskRubyLiterals(maskedSplit.prefix, literals),
+    arguments: maskedSplit.arguments.map((argument) =>
+      unmaskRubyLiterals(spaceWrappedArgument(argument), literals),
+    ),
+    suffix: unmaskRubyLiterals(maskedSplit.suffix, literals),
+  };
   if (!split || split.arguments.length <= 1) {
     return [
       {
@@ -313,12 +1004,16 @@ function wrapRubyBody(
   }
 
   const lines: WrappedLine[] = [];
-  lines.push({ text: split.prefix.trimEnd(), extraIndent: 0 });
-
   const continuationIndent = Math.max(0, continuationWidth);
+  const args = [...split.arguments];
+  if (split.hanging) {
+    lines.push({ text: `${split.prefix}${args.shift()},`, extraIndent: 0 });
+  } else {
+    lines.push({ text: split.prefix.trimEnd(), extraIndent: 0 });
+  }
 
-  split.arguments.forEach((argument, index) => {
-    const isLast = index === split.arguments.length - 1;
+  args.forEach((argument, index) => {
+    const isLast = index === args.length - 1;
     const suffix = isLast ? split.suffix : ",";
     const text = `${argument.trim()}${suffix}`;
     lines.push({
@@ -327,15 +1022,6 @@ function wrapRubyBody(
     });
   });
 
-  if (split.arguments.length === 0 && split.suffix) {
-    lines[lines.length - 1].text = appendComment(split.suffix, comment);
-  } else if (!comment && split.suffix && split.arguments.length > 0) {
-    const last = lines[lines.length - 1];
-    if (!last.text.endsWith(split.suffix)) {
-      last.text = `${last.text}${split.suffix}`;
-    }
-  }
-
   return lines;
 }
 
@@ -343,6 +1029,41 @@ interface SplitArgumentsResult {
   prefix: string;
   arguments: string[];
   suffix: string;
+  /** Whether the first argument stays on the line of `prefix`. */
+  hanging: boolean;
+}
+
+/** Leading words that make a line something other than a command call. */
+const NON_COMMAND_WORDS = new Set([
+  ...BLOCK_START_KEYWORDS,
+  ...BLOCK_MIDDLE_KEYWORDS,
+  ...BLOCK_END_KEYWORDS,
+  "and",
+  "or",
+  "not",
+  "then",
+  "do",
+  "in",
+  "defined?",
+]);
+
+/**
+ * Splits a method call whose arguments are not parenthesized, such as
+ * `f.text_field :name, class: "input"`, into the method and its arguments.
+ */
+function splitCommandArgumentsForWrap(
+  body: string,
+): SplitArgumentsResult | null {
+  const match = body.match(
+    /^((?:[A-Za-z_@$][\w]*(?:\.|&\.|::))*[A-Za-z_]\w*[?!]?) /,
+  );
+  if (!match || NON_COMMAND_WORDS.has(match[1])) return null;
+  const next = body[match[0].length] ?? "";
+  if (next !== LITERAL_MARKER && !/[\w"':@$[*&]/.test(next)) return null;
+
+  const args = splitArguments(body.slice(match[0].length));
+  if (args.length <= 1) return null;
+  return { prefix: match[0], arguments: args, suffix: "", hanging: true };
 }
 
 function splitArgumentsForWrap(body: string): SplitArgumentsResult | null {
@@ -361,7 +1082,7 @@ function splitArgumentsForWrap(body: string): SplitArgumentsResult | null {
     return null;
   }
 
-  return { prefix, arguments: args, suffix };
+  return { prefix, arguments: args, suffix, hanging: false };
 }
 
 function splitArguments(content: string): string[] {
@@ -449,6 +1170,14 @@ function splitArguments(content: string): string[] {
       current += char;
       continue;
     }
+    // Block parameters (`do |form, options|`) stay with the argument before them.
+    if (char === "|" && /(?:\bdo|\{)\s*$/.test(current)) {
+      const close = content.indexOf("|", i + 1);
+      const end = close === -1 ? content.length : close + 1;
+      current += content.slice(i, end);
+      i = end - 1;
+      continue;
+    }
     if (char === "{") {
       depthBrace += 1;
       current += char;
@@ -495,10 +1224,11 @@ function shouldIndentAfter(line: string): boolean {
     if (BLOCK_START_KEYWORDS.has(keyword)) return true;
     if (BLOCK_MIDDLE_KEYWORDS.has(keyword)) return true;
   }
-  if (/\bdo\b/.test(line) && !/\bend\b/.test(line)) {
-    return true;
-  }
-  return false;
+  return opensDoBlock(line);
+}
+
+function opensDoBlock(line: string): boolean {
+  return /\bdo\b/.test(line) && !/\bend\b/.test(line);
 }
 
 function leadingKeyword(line: string): string | null {
@@ -0,0 +1,86 @@
+import type { SourceRange } from "../parser.js";
+import type { DiagnosticLocation } from "./index.js";
+
+/** Longest snippet attached to a diagnostic before it is truncated. */
+const MAX_SNIPPET_LENGTH = 120;
+
+export interface SourceLocator {
+  /** Builds a range with zero-based rows and UTF-16 columns from source offsets. */
+  rangeAt(startIndex: number, endIndex: number): SourceRange;
+  /** Converts a zero-based row and column back to a source offset. */
+  offsetAt(row: number, column: number): number;
+  /** The source line containing `row`, without its line terminator. */
+  lineText(row: number): string;
+}
+
+export function createSourceLocator(source: string): SourceLocator {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i += 1) {
+    if (source[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const positionAt = (index: number) => {
+    const offset = Math.max(0, Math.min(index, source.length));
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { row: low, column: offset - lineStarts[low] };
+  };
+
+  return {
+    rangeAt(startIndex, endIndex) {
+      return {
+        startIndex,
+        endIndex,
+        startPosition: positionAt(startIndex),
+        endPosition: positionAt(endIndex),
+      };
+    },
+    offsetAt(row, column) {
+      if (row >= lineStarts.length) return source.length;
+      return Math.min(lineStarts[Math.max(0, row)] + column, source.length);
+    },
+    lineText(row) {
+      const start = lineStarts[row] ?? source.length;
+      const next = lineStarts[row + 1];
+      const end = next === undefined ? source.length : next - 1;
+      return source.slice(start, end).replace(/\r$/, "");
+    },
+  };
+}
+
+/** Trimmed source line used as the snippet for a diagnostic starting at `row`. */
+export function snippetForRow(locator: SourceLocator, row: number): string {
+  const text = locator.lineText(row).trim();
+  return text.length > MAX_SNIPPET_LENGTH
+    ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…`
+    : text;
+}
+
+/** Range, one-based location, and snippet for a diagnostic spanning the offsets. */
+export function locateSpan(
+  locator: SourceLocator,
+  startIndex: number,
+  endIndex: number,
+): { range: SourceRange; location: DiagnosticLocation; snippet: string } {
+  const range = locator.rangeAt(startIndex, endIndex);
+  return {
+    range,
+    location: {
+      line: range.startPosition.row + 1,
+      column: range.startPosition.column + 1,
+      endLine: range.endPosition.row + 1,
+      endColumn: range.endPosition.column + 1,
+    },
+    snippet: snippetForRow(locator, range.startPosition.row),
+  };
+}
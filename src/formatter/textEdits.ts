@@ -0,0 +1,163 @@
+import { createSourceLocator, type SourceLocator } from "./sourceLocation.js";
+
+/** Zero-based line and UTF-16 character offset, as used by the LSP. */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+export interface TextRange {
+  start: TextPosition;
+  end: TextPosition;
+}
+
+/** Replacement of `range` in the original source with `newText`. */
+export interface TextEdit {
+  range: TextRange;
+  newText: string;
+}
+
+export function createTextEdit(
+  locator: SourceLocator,
+  startIndex: number,
+  endIndex: number,
+  newText: string,
+): TextEdit {
+  const { startPosition, endPosition } = locator.rangeAt(startIndex, endIndex);
+  return {
+    range: {
+      start: { line: startPosition.row, character: startPosition.column },
+      end: { line: endPosition.row, character: endPosition.column },
+    },
+    newText,
+  };
+}
+
+/** Replacement text for a span of the source, in UTF-16 offsets. */
+export interface SourceReplacement {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * Builds LSP edits that turn `source` into `output`. `replacements` should
+ * tile the source in order (one per formatter segment); each is shrunk to the
+ * part that actually changed. Without them, or when they do not reproduce
+ * `output`, a single edit covering the changed middle of the file is returned.
+ */
+export function computeTextEdits(
+  source: string,
+  output: string,
+  replacements: SourceReplacement[] | null,
+): TextEdit[] {
+  if (source === output) return [];
+
+  const whole = [{ start: 0, end: source.length, newText: output }];
+  let changes = minimizeReplacements(source, replacements ?? whole);
+  if (replacements && applyReplacements(source, changes) !== output) {
+    changes = minimizeReplacements(source, whole);
+  }
+
+  const locator = createSourceLocator(source);
+  return changes.map((change) =>
+    createTextEdit(locator, change.start, change.end, change.newText),
+  );
+}
+
+/**
+ * Applies edits whose ranges refer to the original `text`. Edits may arrive in
+ * any order but must not overlap.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const locator = createSourceLocator(text);
+  const replacements = edits
+    .map((edit) => ({
+      start: locator.offsetAt(
+        edit.range.start.line,
+        edit.range.start.character,
+      ),
+      end: locator.offsetAt(edit.range.end.line, edit.range.end.character),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  replacements.forEach((replacement, index) => {
+    const previous = replacements[index - 1];
+    if (previous && replacement.start < previous.end) {
+      throw new Error("Cannot apply overlapping text edits.");
+    }
+  });
+  return applyReplacements(text, replacements);
+}
+
+function applyReplacements(
+  text: string,
+  replacements: SourceReplacement[],
+): string {
+  let result = "";
+  let cursor = 0;
+  replacements.forEach((replacement) => {
+    result += text.slice(cursor, replacement.start) + replacement.newText;
+    cursor = replacement.end;
+  });
+  return result + text.slice(cursor);
+}
+
+/**
+ * Drops unchanged replacements, trims the common prefix and suffix from the
+ * rest, and merges edits that end up touching so no two share a position.
+ */
+function minimizeReplacements(
+  source: string,
+  replacements: SourceReplacement[],
+): SourceReplacement[] {
+  const minimized: SourceReplacement[] = [];
+  replacements.forEach(({ start, end, newText }) => {
+    const original = source.slice(start, end);
+    if (original === newText) return;
+
+    let prefix = 0;
+    const maxPrefix = Math.min(original.length, newText.length);
+    while (prefix < maxPrefix && original[prefix] === newText[prefix]) {
+      prefix += 1;
+    }
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (
+      suffix < maxSuffix &&
+      original[original.length - 1 - suffix] ===
+        newText[newText.length - 1 - suffix]
+    ) {
+      suffix += 1;
+    }
+    // Keep `\r\n` pairs and surrogate pairs on one side of the edit.
+    if (prefix > 0 && splitsPair(original, prefix)) prefix -= 1;
+    if (suffix > 0 && splitsPair(original, original.length - suffix)) {
+      suffix -= 1;
+    }
+
+    const change = {
+      start: start + prefix,
+      end: end - suffix,
+      newText: newText.slice(prefix, newText.length - suffix),
+    };
+    const previous = minimized[minimized.length - 1];
+    if (previous && previous.end >= change.start) {
+      previous.newText += source.slice(previous.end, change.start);
+      previous.newText += change.newText;
+      previous.end = change.end;
+      return;
+    }
+    minimized.push(change);
+  });
+  return minimized;
+}
+
+function splitsPair(text: string, index: number): boolean {
+  const before = text.charCodeAt(index - 1);
+  const after = text.charCodeAt(index);
+  return (
+    (before === 13 && after === 10) ||
+    (before >= 0xd800 && before <= 0xdbff && after >= 0xdc00 && after <= 0xdfff)
+  );
+}
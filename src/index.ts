@@ -5,9 +5,29 @@ export {
   type FormatterConfigInput,
   type FormatterResult,
   type FormatterDiagnostic,
+  type FormatterDiagnosticCode,
+  type DiagnosticLocation,
+  type DiagnosticRelatedLocation,
   type FormatSegment,
 } from "./formatter/index.js";
 
+export { validateRubyBlocks } from "./formatter/rubyBlocks.js";
+
+export {
+  formatERBRange,
+  type FormatRange,
+  type RangeFormatResult,
+} from "./formatter/range.js";
+
+export {
+  applyTextEdits,
+  type TextEdit,
+  type TextPosition,
+  type TextRange,
+} from "./formatter/textEdits.js";
+
+export { runLanguageServer, type LanguageServerOptions } from "./lsp/server.js";
+
 export {
   buildPlaceholderDocument,
   type PlaceholderDocument,
@@ -20,8 +40,17 @@ export {
 } from "./formatter/htmlDocument.js";
 
 export {
+  ERBDocument,
+  computeRubyBlockDepth,
+  createParserSession,
   parseERB,
+  type ParserSession,
   type ParsedERB,
   type ERBRegion,
+  type RubyBlock,
+  type RubyBlockAnalysis,
+  type RubyBlockDepth,
+  type RubyBlockIssue,
   type RubyRegion,
+  type SourceRange,
 } from "./parser.js";
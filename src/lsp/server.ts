@@ -0,0 +1,419 @@
+import { fileURLToPath } from "url";
+import {
+  DEFAULT_FORMATTER_CONFIG,
+  formatERB,
+  mergeConfig,
+  type FormatterConfigInput,
+  type FormatterDiagnostic,
+} from "../formatter/index.js";
+import { formatERBRange } from "../formatter/range.js";
+import {
+  createSourceLocator,
+  type SourceLocator,
+} from "../formatter/sourceLocation.js";
+import type {
+  TextEdit,
+  TextPosition,
+  TextRange,
+} from "../formatter/textEdits.js";
+import { ERBDocument, type SourceRange } from "../parser.js";
+import {
+  createConfigLocator,
+  type ConfigLocator,
+} from "../utils/configDiscovery.js";
+import {
+  ErrorCodes,
+  readMessages,
+  writeMessage,
+  type JsonRpcError,
+  type JsonRpcMessage,
+} from "./transport.js";
+
+export interface LanguageServerOptions {
+  /** Reported to the client in `serverInfo`. */
+  version?: string;
+  /** Look for `.erb-fmtrc` and friends next to each document (default true). */
+  discoverConfig?: boolean;
+}
+
+interface OpenDocument {
+  uri: string;
+  version: number;
+  /** Kept parsed between changes so each keystroke only reparses what it touched. */
+  content: ERBDocument;
+}
+
+/** Editor preferences sent with every formatting request. */
+interface FormattingOptions {
+  tabSize: number;
+  insertSpaces: boolean;
+}
+
+interface TextDocumentContentChange {
+  range?: TextRange;
+  text: string;
+}
+
+interface TextDocumentIdentifier {
+  uri: string;
+}
+
+interface DocumentFormattingParams {
+  textDocument: TextDocumentIdentifier;
+  options: FormattingOptions;
+}
+
+interface DocumentRangeFormattingParams extends DocumentFormattingParams {
+  range: TextRange;
+}
+
+interface DocumentOnTypeFormattingParams extends DocumentFormattingParams {
+  position: TextPosition;
+  ch: string;
+}
+
+interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentIdentifier & { version: number; text: string };
+}
+
+interface DidChangeTextDocumentParams {
+  textDocument: TextDocumentIdentifier & { version: number };
+  contentChanges: TextDocumentContentChange[];
+}
+
+interface DidCloseTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+/** Params of each request the server handles, by method. */
+interface RequestParams {
+  initialize: unknown;
+  shutdown: unknown;
+  "textDocument/formatting": DocumentFormattingParams;
+  "textDocument/rangeFormatting": DocumentRangeFormattingParams;
+  "textDocument/onTypeFormatting": DocumentOnTypeFormattingParams;
+}
+
+/** Params of each notification the server handles, by method. */
+interface NotificationParams {
+  "textDocument/didOpen": DidOpenTextDocumentParams;
+  "textDocument/didChange": DidChangeTextDocumentParams;
+  "textDocument/didClose": DidCloseTextDocumentParams;
+  "workspace/didChangeWatchedFiles": unknown;
+}
+
+type Handlers<Params, Result> = {
+  [Method in keyof Params]: (params: Params[Method]) => Result;
+};
+
+/** Sent to the client as `textDocumentSync.change`: apply ranged edits. */
+const TEXT_DOCUMENT_SYNC_INCREMENTAL = 2;
+
+const DIAGNOSTIC_SEVERITY = { error: 1, warning: 2, info: 3 } as const;
+
+/**
+ * Serves `textDocument/formatting`, `rangeFormatting`, and `onTypeFormatting`
+ * (after `%>`) over LSP, and publishes formatter diagnostics for open
+ * documents. The Tree-sitter grammars stay loaded for the life of the process,
+ * and each document is formatted with the config discovered for its path.
+ * Resolves with the process exit code once the client sends `exit` or closes
+ * the input stream.
+ */
+export function runLanguageServer(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  options: LanguageServerOptions = {},
+): Promise<number> {
+  const documents = new Map<string, OpenDocument>();
+  const discoverConfig = options.discoverConfig ?? true;
+  let locateConfig: ConfigLocator = createConfigLocator();
+  let initialized = false;
+  let shuttingDown = false;
+
+  const send = (message: Omit<JsonRpcMessage, "jsonrpc">) =>
+    writeMessage(output, { jsonrpc: "2.0", ...message });
+  const notify = (method: string, params: unknown) => send({ method, params });
+  const logMessage = (message: string) =>
+    notify("window/logMessage", { type: 1, message: `erb-fmt: ${message}` });
+
+  const resolveConfig = (
+    uri: string,
+    formatting?: FormattingOptions,
+  ): FormatterConfigInput | undefined => {
+    const discovered =
+      discoverConfig && uri.startsWith("file:")
+        ? locateConfig(fileURLToPath(uri))
+        : null;
+    if (discovered) return discovered.config;
+    if (!formatting) return undefined;
+    return mergeConfig(DEFAULT_FORMATTER_CONFIG, {
+      indentation: {
+        size: formatting.tabSize,
+        style: formatting.insertSpaces ? "space" : "tab",
+      },
+    });
+  };
+
+  const publishDiagnostics = (document: OpenDocument) => {
+    let diagnostics: FormatterDiagnostic[];
+    try {
+      diagnostics = formatERB(
+        document.content.parsed,
+        resolveConfig(document.uri),
+      ).diagnostics;
+    } catch (error) {
+      logMessage(
+        `failed to check ${document.uri}: ${(error as Error).message}`,
+      );
+      return;
+    }
+    notify("textDocument/publishDiagnostics", {
+      uri: document.uri,
+      version: document.version,
+      diagnostics: diagnostics.map((diagnostic) =>
+        toLspDiagnostic(diagnostic, document.uri),
+      ),
+    });
+  };
+
+  const requireDocument = (uri: string): OpenDocument => {
+    const document = documents.get(uri);
+    if (!document) {
+      throw new Error(`document ${uri} is not open`);
+    }
+    return document;
+  };
+
+  const requests: Handlers<RequestParams, unknown> = {
+    initialize: () => {
+      initialized = true;
+      return {
+        capabilities: {
+          textDocumentSync: {
+            openClose: true,
+            change: TEXT_DOCUMENT_SYNC_INCREMENTAL,
+          },
+          documentFormattingProvider: true,
+          documentRangeFormattingProvider: true,
+          documentOnTypeFormattingProvider: { firstTriggerCharacter: ">" },
+        },
+        serverInfo: { name: "erb-fmt", version: options.version },
+      };
+    },
+    shutdown: () => {
+      shuttingDown = true;
+      return null;
+    },
+    "textDocument/formatting": (params): TextEdit[] => {
+      const document = requireDocument(params.textDocument.uri);
+      const result = formatERB(
+        document.content.parsed,
+        resolveConfig(document.uri, params.options),
+      );
+      return result.diagnostics.some((diag) => diag.severity === "error")
+        ? []
+        : result.edits;
+    },
+    "textDocument/rangeFormatting": (params): TextEdit[] => {
+      const document = requireDocument(params.textDocument.uri);
+      const locator = createSourceLocator(document.content.text);
+      return formatERBRange(
+        document.content.text,
+        {
+          start: toOffset(locator, params.range.start),
+          end: toOffset(locator, params.range.end),
+        },
+        resolveConfig(document.uri, params.options),
+      ).edits;
+    },
+    "textDocument/onTypeFormatting": (params): TextEdit[] => {
+      const document = requireDocument(params.textDocument.uri);
+      const locator = createSourceLocator(document.content.text);
+      const offset = toOffset(locator, params.position);
+      if (
+        params.ch !== ">" ||
+        document.content.text.slice(offset - 2, offset) !== "%>"
+      ) {
+        return [];
+      }
+      // Format the line holding the directive that was just closed, and only
+      // apply the edits that stay on it so the rest of the buffer is untouched.
+      const { line } = params.position;
+      const lineStart = locator.offsetAt(line, 0);
+      const lineEnd = lineStart + locator.lineText(line).length;
+      return formatERBRange(
+        document.content.text,
+        { start: lineStart, end: lineEnd },
+        resolveConfig(document.uri, params.options),
+      ).edits.filter(
+        (edit) =>
+          edit.range.start.line === line && edit.range.end.line === line,
+      );
+    },
+  };
+
+  const notifications: Handlers<NotificationParams, void> = {
+    "textDocument/didOpen": (params) => {
+      const { uri, version, text } = params.textDocument;
+      const document = { uri, version, content: new ERBDocument(text) };
+      documents.get(uri)?.content.dispose();
+      documents.set(uri, document);
+      publishDiagnostics(document);
+    },
+    "textDocument/didChange": (params) => {
+      const document = requireDocument(params.textDocument.uri);
+      params.contentChanges.forEach((change) => {
+        if (change.range) {
+          document.content.applyEdit(change.range, change.text);
+        } else {
+          document.content.dispose();
+          document.content = new ERBDocument(change.text);
+        }
+      });
+      document.version = params.textDocument.version;
+      publishDiagnostics(document);
+    },
+    "textDocument/didClose": (params) => {
+      documents.get(params.textDocument.uri)?.content.dispose();
+      documents.delete(params.textDocument.uri);
+      notify("textDocument/publishDiagnostics", {
+        uri: params.textDocument.uri,
+        diagnostics: [],
+      });
+    },
+    // Config files may have been edited, added, or removed: forget the cached
+    // lookups and re-check everything that is open.
+    "workspace/didChangeWatchedFiles": () => {
+      locateConfig = createConfigLocator();
+      documents.forEach(publishDiagnostics);
+    },
+  };
+
+  return new Promise((resolve) => {
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      documents.forEach((document) => document.content.dispose());
+      documents.clear();
+      resolve(shuttingDown ? 0 : 1);
+    };
+
+    const handleRequest = (message: JsonRpcMessage) => {
+      const method = message.method as string;
+      const respondError = (error: JsonRpcError) =>
+        send({ id: message.id, error });
+      if (!initialized && method !== "initialize") {
+        respondError({
+          code: ErrorCodes.ServerNotInitialized,
+          message: "the server has not been initialized",
+        });
+        return;
+      }
+      if (shuttingDown) {
+        respondError({
+          code: ErrorCodes.InvalidRequest,
+          message: "the server is shutting down",
+        });
+        return;
+      }
+      const handler = findHandler(requests, method);
+      if (!handler) {
+        respondError({
+          code: ErrorCodes.MethodNotFound,
+          message: `unhandled method ${method}`,
+        });
+        return;
+      }
+      try {
+        send({ id: message.id, result: handler(message.params) ?? null });
+      } catch (error) {
+        respondError({
+          code: ErrorCodes.RequestFailed,
+          message: (error as Error).message,
+        });
+      }
+    };
+
+    const handleNotification = (message: JsonRpcMessage) => {
+      if (message.method === "exit") {
+        finish();
+        return;
+      }
+      const handler = findHandler(notifications, message.method as string);
+      if (!initialized || !handler) return;
+      try {
+        handler(message.params);
+      } catch (error) {
+        logMessage((error as Error).message);
+      }
+    };
+
+    readMessages(
+      input,
+      (message) => {
+        if (typeof message.method !== "string") return;
+        if (message.id === undefined) {
+          handleNotification(message);
+        } else {
+          handleRequest(message);
+        }
+      },
+      (error) => logMessage(error.message),
+    );
+    input.on("end", finish);
+    input.on("close", finish);
+  });
+}
+
+/**
+ * The handler for `method`, taking the client's params as they arrived:
+ * they are trusted to have the shape the LSP specification gives the method.
+ */
+function findHandler<Params, Result>(
+  handlers: Handlers<Params, Result>,
+  method: string,
+): ((params: unknown) => Result) | undefined {
+  if (!Object.hasOwn(handlers, method)) return undefined;
+  return handlers[method as keyof Params] as (params: unknown) => Result;
+}
+
+function toOffset(locator: SourceLocator, position: TextPosition): number {
+  return locator.offsetAt(
+    position.line,
+    Math.min(position.character, locator.lineText(position.line).length),
+  );
+}
+
+function toLspDiagnostic(diagnostic: FormatterDiagnostic, uri: string) {
+  return {
+    range: toLspRange(
+      diagnostic.range ?? {
+        startPosition: { row: 0, column: 0 },
+        endPosition: { row: 0, column: 0 },
+      },
+    ),
+    severity: DIAGNOSTIC_SEVERITY[diagnostic.severity],
+    code: diagnostic.code,
+    source: "erb-fmt",
+    message: diagnostic.message,
+    ...(diagnostic.related
+      ? {
+          relatedInformation: diagnostic.related.map((related) => ({
+            location: { uri, range: toLspRange(related.range) },
+            message: related.message,
+          })),
+        }
+      : {}),
+  };
+}
+
+function toLspRange(range: Pick<SourceRange, "startPosition" | "endPosition">) {
+  return {
+    start: {
+      line: range.startPosition.row,
+      character: range.startPosition.column,
+    },
+    end: { line: range.endPosition.row, character: range.endPosition.column },
+  };
+}
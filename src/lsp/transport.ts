@@ -0,0 +1,82 @@
+/** A JSON-RPC 2.0 request, response, or notification as exchanged over LSP. */
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+}
+
+/** Error codes defined by JSON-RPC and the LSP specification. */
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+  RequestFailed: -32803,
+} as const;
+
+const HEADER_SEPARATOR = "\r\n\r\n";
+
+/**
+ * Splits the `Content-Length` framed stream used by LSP into messages. Bodies
+ * that are not valid JSON are reported through `onError` and skipped.
+ */
+export function readMessages(
+  input: NodeJS.ReadableStream,
+  onMessage: (message: JsonRpcMessage) => void,
+  onError: (error: Error) => void,
+): void {
+  let buffer = Buffer.alloc(0);
+
+  input.on("data", (chunk: Buffer | string) => {
+    buffer = Buffer.concat([
+      buffer,
+      typeof chunk === "string" ? Buffer.from(chunk) : chunk,
+    ]);
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_SEPARATOR);
+      if (headerEnd === -1) return;
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const match = /^content-length:\s*(\d+)\s*$/im.exec(header);
+      if (!match) {
+        onError(new Error(`missing Content-Length header: ${header}`));
+        buffer = buffer.subarray(headerEnd + HEADER_SEPARATOR.length);
+        continue;
+      }
+      const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) return;
+      const body = buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+      buffer = buffer.subarray(bodyEnd);
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(body) as JsonRpcMessage;
+      } catch (error) {
+        onError(
+          new Error(`invalid JSON-RPC message: ${(error as Error).message}`),
+        );
+        continue;
+      }
+      onMessage(message);
+    }
+  });
+}
+
+/** Writes one message with the `Content-Length` header LSP clients expect. */
+export function writeMessage(
+  output: NodeJS.WritableStream,
+  message: JsonRpcMessage,
+): void {
+  const body = Buffer.from(JSON.stringify(message), "utf8");
+  output.write(`Content-Length: ${body.length}\r\n\r\n`);
+  output.write(body);
+}
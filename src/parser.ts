@@ -1,8 +1,15 @@
 import fs from "fs/promises";
 import path from "path";
-import { Language as TreeSitterLanguage, Parser } from "web-tree-sitter";
+import {
+  Language as TreeSitterLanguage,
+  Parser,
+  type Edit,
+  type Point,
+} from "web-tree-sitter";
 import { createRequire } from "module";
 import { fileURLToPath } from "url";
+import { createSourceLocator } from "./formatter/sourceLocation.js";
+import type { TextPosition, TextRange } from "./formatter/textEdits.js";
 
 const require = createRequire(import.meta.url);
 
@@ -43,7 +50,7 @@ type ParserInstance = InstanceType<typeof Parser>;
 type TemplateTree = NonNullable<ReturnType<ParserInstance["parse"]>>;
 type SyntaxNode = TemplateTree["rootNode"];
 
-interface Range {
+export interface SourceRange {
   startIndex: number;
   endIndex: number;
   startPosition: {
@@ -59,7 +66,7 @@ interface Range {
 export type RubyDirectiveFlavor = "logic" | "output" | "comment" | "unknown";
 
 export interface RegionBase {
-  range: Range;
+  range: SourceRange;
   text: string;
 }
 
@@ -72,7 +79,7 @@ export interface RubyRegion extends RegionBase {
   type: "ruby";
   flavor: RubyDirectiveFlavor;
   code: string;
-  codeRange: Range | null;
+  codeRange: SourceRange | null;
   delimiters: {
     open: string;
     close: string;
@@ -90,22 +97,300 @@ export type ERBRegion = HtmlRegion | RubyRegion | UnknownRegion;
 export interface ParsedERB {
   tree: TemplateTree;
   regions: ERBRegion[];
+  /** Ruby block nesting across the directives, from `computeRubyBlockDepth`. */
+  rubyBlocks: RubyBlockAnalysis;
 }
 
+/** How one region moves the Ruby block depth of the template. */
+export interface RubyBlockDepth {
+  /** Blocks the region closes before opening any (`end` and `else` close one). */
+  closes: number;
+  /** Blocks the region opens after those closes (`if`, `else`, and `do` open one). */
+  opens: number;
+  /** Blocks open at the region itself, after its closes; its indent level. */
+  depth: number;
+  /** Blocks open after the region. */
+  after: number;
+}
+
+export interface RubyBlockIssue {
+  kind: "unexpected-closer" | "unclosed-block";
+  /** Index into `ParsedERB.regions` of the directive at fault. */
+  regionIndex: number;
+  /** The closer (`end`, `else`, `}`) or opener (`if`, `do`, `{`) involved. */
+  keyword: string;
+  message: string;
+  /**
+   * For a stray closer, the region that opened the block closed last before
+   * it, which is usually where an `end` too many was meant to go; otherwise
+   * null.
+   */
+  relatedRegionIndex: number | null;
+}
+
+/** A Ruby block whose opener and closer are both in the template. */
+export interface RubyBlock {
+  /** The opener: `if`, `do`, `{`, ... */
+  keyword: string;
+  /**
+   * Regions of the opener, of any branches (`else`, `when`, `rescue`), and of
+   * the closer, in document order.
+   */
+  regionIndexes: number[];
+}
+
+export interface RubyBlockAnalysis {
+  /** One entry per region, in the same order as `ParsedERB.regions`. */
+  depths: RubyBlockDepth[];
+  /** Blocks that span directives, in the order they are closed. */
+  blocks: RubyBlock[];
+  /** Closers without an open block and blocks still open at the end. */
+  issues: RubyBlockIssue[];
+}
+
+/** One initialized parser per grammar. */
+interface TemplateParsers {
+  template: ParserInstance;
+  html: ParserInstance;
+  ruby: ParserInstance;
+}
+
+/** Parsers behind `parseERB`, `getHtmlParser`, and `getRubyParser`. */
+let sharedParsers: TemplateParsers | undefined;
+
+/**
+ * Parses a template with parsers shared by every call. The trees are never
+ * freed; code that parses many templates in one process should use a
+ * `ParserSession` and release each result when done with it.
+ */
 export function parseERB(source: string): ParsedERB {
-  const templateParser = new Parser();
-  templateParser.setLanguage(EMBEDDED_TEMPLATE_LANGUAGE);
+  return parseTemplate(getSharedParsers(), source);
+}
 
-  const htmlParser = new Parser();
-  htmlParser.setLanguage(HTML_LANGUAGE);
+/**
+ * Keeps one parser per grammar alive for many `parse` calls and frees the
+ * WebAssembly memory held by their syntax trees, which the JavaScript garbage
+ * collector cannot reclaim: `release` frees the trees of one result, and
+ * `dispose` frees whatever is left together with the parsers.
+ */
+export interface ParserSession {
+  parse(source: string): ParsedERB;
+  /** Frees the trees of `parsed`, which must not be used afterwards. */
+  release(parsed: ParsedERB): void;
+  /** Frees every unreleased result and the parsers. */
+  dispose(): void;
+}
 
-  const rubyParser = new Parser();
-  rubyParser.setLanguage(RUBY_LANGUAGE);
+export function createParserSession(): ParserSession {
+  const parsers = createTemplateParsers();
+  const live = new Set<ParsedERB>();
+  let disposed = false;
 
-  const tree = templateParser.parse(source);
+  const release = (parsed: ParsedERB) => {
+    if (!live.delete(parsed)) return;
+    collectTrees(parsed).forEach((tree) => tree.delete());
+  };
+
+  return {
+    parse(source) {
+      if (disposed) {
+        throw new Error("Parser session has been disposed.");
+      }
+      const parsed = parseTemplate(parsers, source);
+      live.add(parsed);
+      return parsed;
+    },
+    release,
+    dispose() {
+      if (disposed) return;
+      disposed = true;
+      live.forEach(release);
+      parsers.template.delete();
+      parsers.html.delete();
+      parsers.ruby.delete();
+    },
+  };
+}
+
+function parseTemplate(parsers: TemplateParsers, source: string): ParsedERB {
+  const tree = parsers.template.parse(source);
   if (!tree) {
     throw new Error("Failed to parse ERB template: parser returned null tree.");
   }
+  // Directives such as `<% end %>` repeat throughout a template; each
+  // distinct piece of Ruby is parsed once and its tree shared.
+  const rubyTrees = new Map<string, TemplateTree | null>();
+  const regions = collectRegions(source, tree, {
+    html: (text) => parseHtmlRegion(parsers.html, text),
+    ruby: (input) => {
+      if (!rubyTrees.has(input)) {
+        rubyTrees.set(input, parsers.ruby.parse(input));
+      }
+      return rubyTrees.get(input) ?? null;
+    },
+  });
+
+  return { tree, regions, rubyBlocks: computeRubyBlockDepth(regions) };
+}
+
+/**
+ * A template that stays parsed across edits, for editors and the language
+ * server. `applyEdit` reports the change to Tree-sitter with `tree.edit()` and
+ * reparses incrementally: the template tree and the HTML region holding the
+ * edit reuse their previous trees, and every other region whose text did not
+ * change (nearly all Ruby directives, after a typical keystroke) keeps its
+ * tree without being parsed again.
+ *
+ * Each edit frees the trees it replaced, so a `parsed` snapshot must not be
+ * used after the next `applyEdit`. Call `dispose()` once the document is
+ * closed to release the parsers and trees.
+ */
+export class ERBDocument {
+  private source: string;
+  private current: ParsedERB;
+  private readonly parsers = createTemplateParsers();
+
+  constructor(source: string) {
+    this.source = source;
+    this.current = this.parse(source, null, null);
+  }
+
+  get text(): string {
+    return this.source;
+  }
+
+  get parsed(): ParsedERB {
+    return this.current;
+  }
+
+  /**
+   * Replaces `range` (zero-based lines and UTF-16 characters, as in LSP) with
+   * `newText` and reparses the changed parts of the template.
+   */
+  applyEdit(range: TextRange, newText: string): void {
+    const locator = createSourceLocator(this.source);
+    const toOffset = (position: TextPosition) =>
+      locator.offsetAt(
+        position.line,
+        Math.min(position.character, locator.lineText(position.line).length),
+      );
+    const startIndex = toOffset(range.start);
+    const oldEndIndex = Math.max(startIndex, toOffset(range.end));
+    const { startPosition, endPosition: oldEndPosition } = locator.rangeAt(
+      startIndex,
+      oldEndIndex,
+    );
+    const edit: Edit = {
+      startIndex,
+      oldEndIndex,
+      newEndIndex: startIndex + newText.length,
+      startPosition,
+      oldEndPosition,
+      newEndPosition: advancePoint(startPosition, newText),
+    };
+
+    const previous = this.current;
+    this.source =
+      this.source.slice(0, startIndex) +
+      newText +
+      this.source.slice(oldEndIndex);
+    previous.tree.edit(edit);
+    this.current = this.parse(this.source, previous, edit);
+    const kept = collectTrees(this.current);
+    collectTrees(previous).forEach((tree) => {
+      if (!kept.has(tree)) tree.delete();
+    });
+  }
+
+  /** Frees the parsers and trees. The document cannot be used afterwards. */
+  dispose(): void {
+    collectTrees(this.current).forEach((tree) => tree.delete());
+    this.parsers.template.delete();
+    this.parsers.html.delete();
+    this.parsers.ruby.delete();
+  }
+
+  private parse(
+    source: string,
+    previous: ParsedERB | null,
+    edit: Edit | null,
+  ): ParsedERB {
+    const tree = this.parsers.template.parse(source, previous?.tree ?? null);
+    if (!tree) {
+      throw new Error(
+        "Failed to parse ERB template: parser returned null tree.",
+      );
+    }
+
+    // Region trees are parsed from the region text alone, so a region whose
+    // text is unchanged can keep its tree wherever it moved to.
+    const htmlTrees = new Map<string, TemplateTree>();
+    const rubyTrees = new Map<string, TemplateTree>();
+    previous?.regions.forEach((region) => {
+      if (region.type === "html") {
+        htmlTrees.set(region.text, region.tree);
+      } else if (region.type === "ruby" && region.tree) {
+        rubyTrees.set(ensureTrailingNewline(region.code), region.tree);
+      }
+    });
+    const reused = new Set<TemplateTree>();
+    let edited =
+      edit &&
+      previous?.regions.find(
+        (region): region is HtmlRegion =>
+          region.type === "html" &&
+          region.range.startIndex <= edit.startIndex &&
+          edit.oldEndIndex <= region.range.endIndex,
+      );
+
+    const regions = collectRegions(source, tree, {
+      html: (text, range) => {
+        const unchanged = htmlTrees.get(text);
+        if (unchanged) {
+          reused.add(unchanged);
+          return unchanged;
+        }
+        if (
+          edit &&
+          edited &&
+          !reused.has(edited.tree) &&
+          range.startIndex === edited.range.startIndex &&
+          edit.newEndIndex <= range.endIndex
+        ) {
+          const { tree: oldTree, range: oldRange, text: oldText } = edited;
+          edited = undefined;
+          // The old tree is edited in place, so it can no longer stand in
+          // for its previous text.
+          if (htmlTrees.get(oldText) === oldTree) htmlTrees.delete(oldText);
+          oldTree.edit(toRegionEdit(edit, oldRange));
+          return parseHtmlRegion(this.parsers.html, text, oldTree);
+        }
+        return parseHtmlRegion(this.parsers.html, text);
+      },
+      ruby: (input) => {
+        const unchanged = rubyTrees.get(input);
+        if (unchanged) return unchanged;
+        const tree = this.parsers.ruby.parse(input);
+        if (tree) rubyTrees.set(input, tree);
+        return tree;
+      },
+    });
+
+    return { tree, regions, rubyBlocks: computeRubyBlockDepth(regions) };
+  }
+}
+
+interface RegionParsers {
+  /** Parses a content region; `range` is where it sits in the template. */
+  html: (text: string, range: SourceRange) => TemplateTree;
+  ruby: (input: string) => TemplateTree | null;
+}
+
+function collectRegions(
+  source: string,
+  tree: TemplateTree,
+  parsers: RegionParsers,
+): ERBRegion[] {
   const root = tree.rootNode;
   const regions: ERBRegion[] = [];
 
@@ -115,15 +400,11 @@ export function parseERB(source: string): ParsedERB {
     const range = toRange(child);
     switch (child.type) {
       case "content": {
-        const htmlTree = htmlParser.parse(text);
-        if (!htmlTree) {
-          throw new Error("Failed to parse HTML content region.");
-        }
         regions.push({
           type: "html",
           text,
           range,
-          tree: htmlTree,
+          tree: parsers.html(text, range),
         });
         break;
       }
@@ -142,12 +423,9 @@ export function parseERB(source: string): ParsedERB {
           const inner = text.slice(openLength, text.length - closeLength);
           code = inner.trim();
         }
-        const rubyTree =
-          codeNode && code
-            ? rubyParser.parse(ensureTrailingNewline(code))
-            : codeNode
-              ? rubyParser.parse("")
-              : null;
+        const rubyTree = codeNode
+          ? parsers.ruby(ensureTrailingNewline(code))
+          : null;
         regions.push({
           type: "ruby",
           flavor: mapDirectiveFlavor(child.type),
@@ -174,31 +452,268 @@ export function parseERB(source: string): ParsedERB {
     }
   }
 
-  return { tree, regions };
+  return regions;
 }
 
+/** The shared HTML parser; callers must not delete it. */
 export function getHtmlParser() {
-  const parser = new Parser();
-  parser.setLanguage(HTML_LANGUAGE);
-  return parser;
+  return getSharedParsers().html;
 }
 
+/** The shared Ruby parser; callers must not delete it. */
 export function getRubyParser() {
+  return getSharedParsers().ruby;
+}
+
+function getSharedParsers(): TemplateParsers {
+  sharedParsers ??= createTemplateParsers();
+  return sharedParsers;
+}
+
+function createTemplateParsers(): TemplateParsers {
+  return {
+    template: createParser(EMBEDDED_TEMPLATE_LANGUAGE),
+    html: createParser(HTML_LANGUAGE),
+    ruby: createParser(RUBY_LANGUAGE),
+  };
+}
+
+/** Keywords that open a block closed by `end`. */
+const BLOCK_OPENER_KEYWORDS = new Set([
+  "if",
+  "unless",
+  "while",
+  "until",
+  "for",
+  "case",
+  "begin",
+  "def",
+  "class",
+  "module",
+  "do",
+]);
+
+/** Keywords that close the open block and start the next branch of it. */
+const BLOCK_CONTINUATION_KEYWORDS = new Set([
+  "else",
+  "elsif",
+  "when",
+  "in",
+  "rescue",
+  "ensure",
+]);
+
+interface RubyBlockEvent {
+  kind: "open" | "close" | "continue";
+  keyword: string;
+  index: number;
+}
+
+/**
+ * Tracks Ruby block depth across a template's directives. Each directive is
+ * parsed on its own, so a block that spans directives shows up in its syntax
+ * tree as a node with a missing `end` (or `}`) for the opener, and as a stray
+ * `end`/`else` identifier for the closers. Those events are replayed in
+ * document order against a stack of open blocks, which gives every region the
+ * depth it sits at and pairs closers with openers; closers with nothing to
+ * close and blocks still open at the end of the template become issues.
+ */
+export function computeRubyBlockDepth(regions: ERBRegion[]): RubyBlockAnalysis {
+  const depths: RubyBlockDepth[] = [];
+  const issues: RubyBlockIssue[] = [];
+  const blocks: RubyBlock[] = [];
+  const open: RubyBlock[] = [];
+  let lastClosed: RubyBlock | undefined;
+
+  regions.forEach((region, regionIndex) => {
+    const before = open.length;
+    const events =
+      region.type === "ruby" &&
+      region.tree &&
+      (region.flavor === "logic" || region.flavor === "output")
+        ? collectBlockEvents(region.tree.rootNode)
+        : [];
+
+    let local = 0;
+    let localLowest = 0;
+    let lowest = before;
+    events.forEach((event) => {
+      if (event.kind === "open") {
+        local += 1;
+        open.push({ keyword: event.keyword, regionIndexes: [regionIndex] });
+        return;
+      }
+      local -= 1;
+      localLowest = Math.min(localLowest, local);
+      const closed = open.pop();
+      if (closed) {
+        if (
+          closed.regionIndexes[closed.regionIndexes.length - 1] !== regionIndex
+        ) {
+          closed.regionIndexes.push(regionIndex);
+        }
+        if (event.kind === "close") {
+          blocks.push(closed);
+          lastClosed = closed;
+        }
+      } else {
+        issues.push({
+          kind: "unexpected-closer",
+          regionIndex,
+          keyword: event.keyword,
+          message: `\`${event.keyword}\` has no open Ruby block to ${
+            event.kind === "close" ? "close" : "continue"
+          }`,
+          relatedRegionIndex: lastClosed?.regionIndexes[0] ?? null,
+        });
+      }
+      lowest = Math.min(lowest, open.length);
+      if (event.kind === "continue") {
+        local += 1;
+        // The branch belongs to the block its opener started.
+        open.push(
+          closed ?? { keyword: event.keyword, regionIndexes: [regionIndex] },
+        );
+      }
+    });
+
+    depths.push({
+      closes: -localLowest,
+      opens: local - localLowest,
+      depth: lowest,
+      after: open.length,
+    });
+  });
+
+  open.forEach(({ regionIndexes: [regionIndex], keyword }) => {
+    const closer = keyword === "{" ? "}" : "end";
+    issues.push({
+      kind: "unclosed-block",
+      regionIndex,
+      keyword,
+      message: `\`${keyword}\` block is never closed with \`${closer}\``,
+      relatedRegionIndex: null,
+    });
+  });
+
+  return { depths, blocks, issues };
+}
+
+function collectBlockEvents(root: SyntaxNode): RubyBlockEvent[] {
+  const events: RubyBlockEvent[] = [];
+  const visit = (node: SyntaxNode) => {
+    const parent = node.parent;
+    if (node.isMissing) {
+      if (parent && (node.type === "end" || node.type === "}")) {
+        events.push({
+          kind: "open",
+          keyword: blockOpenerKeyword(parent),
+          index: parent.startIndex,
+        });
+      }
+      return;
+    }
+    if (node.type === "identifier") {
+      // `end`, `else`, ... parse as bare identifiers when their block is not
+      // part of this directive; `range.end` is a method call.
+      const previous = node.previousSibling?.type;
+      const isMethodName = previous === "." || previous === "&.";
+      const kind =
+        node.text === "end"
+          ? "close"
+          : BLOCK_CONTINUATION_KEYWORDS.has(node.text)
+            ? "continue"
+            : null;
+      if (kind && !isMethodName) {
+        events.push({ kind, keyword: node.text, index: node.startIndex });
+      }
+    } else if (!node.isNamed && parent?.type === "ERROR") {
+      // Lines Tree-sitter could not recover leave their keywords as loose
+      // tokens; `while x do` opens a single block.
+      const loopDo =
+        node.type === "do" &&
+        ["while", "until", "for"].includes(
+          node.previousSibling?.previousSibling?.type ?? "",
+        );
+      let kind: RubyBlockEvent["kind"] | null = null;
+      if (BLOCK_OPENER_KEYWORDS.has(node.type) && !loopDo) kind = "open";
+      else if (node.type === "end" || node.type === "}") kind = "close";
+      else if (BLOCK_CONTINUATION_KEYWORDS.has(node.type)) kind = "continue";
+      if (kind) {
+        events.push({ kind, keyword: node.type, index: node.startIndex });
+      }
+    }
+    node.children.forEach((child) => {
+      if (child) visit(child);
+    });
+  };
+  visit(root);
+  return events.sort((a, b) => a.index - b.index);
+}
+
+/** Keyword that opened `node`, a block whose closer is missing. */
+function blockOpenerKeyword(node: SyntaxNode): string {
+  if (node.type === "do_block") return "do";
+  if (node.type === "block") return "{";
+  // The `do ... end` body of a `while` or `for` loop.
+  const owner = node.type === "do" && node.parent ? node.parent : node;
+  return owner.firstChild?.type ?? owner.type;
+}
+
+function createParser(language: TreeSitterLanguage): ParserInstance {
   const parser = new Parser();
-  parser.setLanguage(RUBY_LANGUAGE);
+  parser.setLanguage(language);
   return parser;
 }
 
-// Work-in-progress idea: compute Ruby block depth by tracking enter/exit keywords.
-// Each directive would contribute deltas derived from its Ruby AST:
-//   1. Walk `RubyRegion.tree`, identifying nodes that open blocks (`if`, `do`, etc.).
-//   2. Emit +1 for block starters and -1 for matching `end` nodes (plus modifiers).
-//   3. Accumulate deltas across regions in document order to recover depth at each
-//      boundary, effectively mirroring a stack without storing every frame.
-// This stub keeps the surface API while we iterate on the analysis logic.
-export function computeRubyBlockDepth(_: RubyRegion[]): number {
-  // Placeholder implementation; will evolve to return per-region depth metadata.
-  return 0;
+function parseHtmlRegion(
+  parser: ParserInstance,
+  text: string,
+  oldTree?: TemplateTree,
+): TemplateTree {
+  const tree = parser.parse(text, oldTree ?? null);
+  if (!tree) {
+    throw new Error("Failed to parse HTML content region.");
+  }
+  return tree;
+}
+
+/** Every distinct tree referenced by `parsed`. */
+function collectTrees(parsed: ParsedERB): Set<TemplateTree> {
+  const trees = new Set<TemplateTree>([parsed.tree]);
+  parsed.regions.forEach((region) => {
+    if (region.type !== "unknown" && region.tree) trees.add(region.tree);
+  });
+  return trees;
+}
+
+/** Rebases a template edit onto a region tree parsed from the region text. */
+function toRegionEdit(edit: Edit, region: SourceRange): Edit {
+  const { startIndex, startPosition } = region;
+  const toRegionPoint = (point: Point): Point =>
+    point.row === startPosition.row
+      ? { row: 0, column: point.column - startPosition.column }
+      : { row: point.row - startPosition.row, column: point.column };
+  return {
+    startIndex: edit.startIndex - startIndex,
+    oldEndIndex: edit.oldEndIndex - startIndex,
+    newEndIndex: edit.newEndIndex - startIndex,
+    startPosition: toRegionPoint(edit.startPosition),
+    oldEndPosition: toRegionPoint(edit.oldEndPosition),
+    newEndPosition: toRegionPoint(edit.newEndPosition),
+  };
+}
+
+/** The position reached after inserting `text` at `point`. */
+function advancePoint(point: Point, text: string): Point {
+  const lastBreak = text.lastIndexOf("\n");
+  if (lastBreak === -1) {
+    return { row: point.row, column: point.column + text.length };
+  }
+  return {
+    row: point.row + text.split("\n").length - 1,
+    column: text.length - lastBreak - 1,
+  };
 }
 
 function mapDirectiveFlavor(type: string): RubyDirectiveFlavor {
@@ -218,7 +733,7 @@ function sliceSource(source: string, node: SyntaxNode): string {
   return source.slice(node.startIndex, node.endIndex);
 }
 
-function toRange(node: SyntaxNode): Range {
+function toRange(node: SyntaxNode): SourceRange {
   return {
     startIndex: node.startIndex,
     endIndex: node.endIndex,
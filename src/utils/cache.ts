@@ -0,0 +1,165 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  DEFAULT_FORMATTER_CONFIG,
+  mergeConfig,
+  type FormatterConfigInput,
+} from "../formatter/index.js";
+
+/** Cache file used by `--cache` unless `--cache-location` names another. */
+export const DEFAULT_CACHE_LOCATION = path.join(
+  "node_modules",
+  ".cache",
+  "erb-fmt",
+  "cache.json",
+);
+
+export const CACHE_STRATEGIES = ["content", "metadata"] as const;
+
+/** `content` hashes each file; `metadata` trusts its modification time and size. */
+export type CacheStrategy = (typeof CACHE_STRATEGIES)[number];
+
+interface CacheEntry {
+  /** Hash of the resolved `FormatterConfig` the file was formatted with. */
+  config: string;
+  /** Content hash (`content` strategy). */
+  hash?: string;
+  /** Modification time and size (`metadata` strategy). */
+  mtimeMs?: number;
+  size?: number;
+}
+
+interface CacheFile {
+  version: string;
+  strategy: CacheStrategy;
+  files: Record<string, CacheEntry>;
+}
+
+export interface FormatCache {
+  /** Whether `filePath`, currently containing `source`, is known to be formatted with `config`. */
+  isFormatted(
+    filePath: string,
+    source: string,
+    config: FormatterConfigInput | undefined,
+  ): boolean;
+  /** Records that `filePath` now contains `source` and that it is formatted. */
+  markFormatted(
+    filePath: string,
+    source: string,
+    config: FormatterConfigInput | undefined,
+  ): void;
+  forget(filePath: string): void;
+  /** Writes the cache back to disk when anything changed. */
+  save(): void;
+}
+
+/**
+ * Loads the cache at `location`. A cache written by another erb-fmt version or
+ * with a different strategy is discarded, as is one that cannot be parsed.
+ */
+export function loadFormatCache(
+  location: string,
+  strategy: CacheStrategy,
+  version: string,
+): FormatCache {
+  const cacheFile = readCacheFile(location, strategy, version);
+  const configHashes = new Map<string, string>();
+  let dirty = false;
+
+  const hashConfig = (config: FormatterConfigInput | undefined) => {
+    const serialized = JSON.stringify(
+      mergeConfig(DEFAULT_FORMATTER_CONFIG, config),
+    );
+    let hash = configHashes.get(serialized);
+    if (!hash) {
+      hash = hashText(serialized);
+      configHashes.set(serialized, hash);
+    }
+    return hash;
+  };
+
+  const describeFile = (
+    filePath: string,
+    source: string,
+  ): Omit<CacheEntry, "config"> | null => {
+    if (strategy === "content") {
+      return { hash: hashText(source) };
+    }
+    try {
+      const stats = fs.statSync(filePath);
+      return { mtimeMs: stats.mtimeMs, size: stats.size };
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    isFormatted(filePath, source, config) {
+      const entry = cacheFile.files[path.resolve(filePath)];
+      const current = entry ? describeFile(filePath, source) : null;
+      return Boolean(
+        entry &&
+        current &&
+        entry.config === hashConfig(config) &&
+        entry.hash === current.hash &&
+        entry.mtimeMs === current.mtimeMs &&
+        entry.size === current.size,
+      );
+    },
+    markFormatted(filePath, source, config) {
+      const current = describeFile(filePath, source);
+      if (!current) return;
+      const key = path.resolve(filePath);
+      const entry = { config: hashConfig(config), ...current };
+      if (JSON.stringify(cacheFile.files[key]) !== JSON.stringify(entry)) {
+        cacheFile.files[key] = entry;
+        dirty = true;
+      }
+    },
+    forget(filePath) {
+      const key = path.resolve(filePath);
+      if (key in cacheFile.files) {
+        delete cacheFile.files[key];
+        dirty = true;
+      }
+    },
+    save() {
+      if (!dirty) return;
+      fs.mkdirSync(path.dirname(location), { recursive: true });
+      const temporary = `${location}.${process.pid}.tmp`;
+      fs.writeFileSync(temporary, JSON.stringify(cacheFile), "utf8");
+      fs.renameSync(temporary, location);
+      dirty = false;
+    },
+  };
+}
+
+function readCacheFile(
+  location: string,
+  strategy: CacheStrategy,
+  version: string,
+): CacheFile {
+  const empty: CacheFile = { version, strategy, files: {} };
+  let parsed: Partial<CacheFile>;
+  try {
+    parsed = JSON.parse(
+      fs.readFileSync(location, "utf8"),
+    ) as Partial<CacheFile>;
+  } catch {
+    return empty;
+  }
+  if (
+    parsed.version !== version ||
+    parsed.strategy !== strategy ||
+    typeof parsed.files !== "object" ||
+    parsed.files === null
+  ) {
+    return empty;
+  }
+  return { version, strategy, files: parsed.files };
+}
+
+function hashText(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+import type { FormatterConfigInput } from "../formatter/index.js";
+
+/** Config file names checked in each directory, in priority order. */
+export const CONFIG_FILE_NAMES = [
+  ".erb-fmtrc",
+  ".erb-fmtrc.json",
+  "erb-fmt.config.json",
+] as const;
+
+/** Key read from `package.json` when no dedicated config file exists. */
+export const PACKAGE_JSON_CONFIG_KEY = "erb-fmt";
+
+export interface DiscoveredConfig {
+  /** Absolute path of the file the configuration was read from. */
+  path: string;
+  config: FormatterConfigInput;
+}
+
+export type ConfigLocator = (filePath: string) => DiscoveredConfig | null;
+
+/**
+ * Creates a lookup that walks up from a template's directory and returns the
+ * nearest configuration. Results are cached per directory so formatting a
+ * whole view tree only reads each candidate file once.
+ */
+export function createConfigLocator(): ConfigLocator {
+  const cache = new Map<string, DiscoveredConfig | null>();
+
+  const lookup = (directory: string): DiscoveredConfig | null => {
+    const cached = cache.get(directory);
+    if (cached !== undefined) return cached;
+
+    let found = readDirectoryConfig(directory);
+    if (!found) {
+      const parent = path.dirname(directory);
+      found = parent !== directory ? lookup(parent) : null;
+    }
+    cache.set(directory, found);
+    return found;
+  };
+
+  return (filePath) => lookup(path.dirname(path.resolve(filePath)));
+}
+
+function readDirectoryConfig(directory: string): DiscoveredConfig | null {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = path.join(directory, fileName);
+    const contents = readFileIfPresent(candidate);
+    if (contents === null) continue;
+    const parsed = parseJsonConfig(candidate, contents);
+    if (!isPlainObject(parsed)) {
+      throw new Error(`config file ${candidate} must contain a JSON object`);
+    }
+    return { path: candidate, config: parsed as FormatterConfigInput };
+  }
+
+  const packageJsonPath = path.join(directory, "package.json");
+  const packageContents = readFileIfPresent(packageJsonPath);
+  if (packageContents === null) return null;
+  const packageJson = parseJsonConfig(packageJsonPath, packageContents);
+  if (!isPlainObject(packageJson)) return null;
+  const section = packageJson[PACKAGE_JSON_CONFIG_KEY];
+  if (section === undefined) return null;
+  if (!isPlainObject(section)) {
+    throw new Error(
+      `"${PACKAGE_JSON_CONFIG_KEY}" in ${packageJsonPath} must be a JSON object`,
+    );
+  }
+  return { path: packageJsonPath, config: section as FormatterConfigInput };
+}
+
+function readFileIfPresent(filePath: string): string | null {
+  try {
+    if (!fs.statSync(filePath).isFile()) return null;
+    return fs.readFileSync(filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function parseJsonConfig(filePath: string, contents: string): unknown {
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new Error(
+      `failed to load config file ${filePath}: ${(error as Error).message}`,
+    );
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,325 @@
+type DiffOperation = {
+  type: "equal" | "delete" | "insert";
+  line: string;
+};
+
+export interface UnifiedDiffOptions {
+  /** Unchanged lines printed around each change (defaults to 3). */
+  context?: number;
+  /** Wrap headers and changed lines in ANSI color codes. */
+  color?: boolean;
+}
+
+const ANSI = {
+  bold: "\u001b[1m",
+  red: "\u001b[31m",
+  green: "\u001b[32m",
+  cyan: "\u001b[36m",
+  reset: "\u001b[0m",
+};
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+/**
+ * Builds a unified diff (the `diff -u` / `git diff` layout) between two texts.
+ * Returns an empty string when the inputs are identical.
+ */
+export function createUnifiedDiff(
+  oldLabel: string,
+  newLabel: string,
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  if (oldText === newText) return "";
+
+  const context = Math.max(0, options.context ?? 3);
+  const paint = (code: string, text: string) =>
+    options.color ? `${code}${text}${ANSI.reset}` : text;
+
+  const operations = diffLines(splitLines(oldText), splitLines(newText));
+  const lines: string[] = [
+    paint(ANSI.bold, `--- ${oldLabel}`),
+    paint(ANSI.bold, `+++ ${newLabel}`),
+  ];
+
+  collectHunks(operations, context).forEach((hunk) => {
+    lines.push(paint(ANSI.cyan, formatHunkHeader(hunk)));
+    for (let i = hunk.start; i < hunk.end; i += 1) {
+      const operation = operations[i];
+      const prefix =
+        operation.type === "delete"
+          ? "-"
+          : operation.type === "insert"
+            ? "+"
+            : " ";
+      const text = `${prefix}${operation.line.replace(/\n$/, "")}`;
+      if (operation.type === "delete") {
+        lines.push(paint(ANSI.red, text));
+      } else if (operation.type === "insert") {
+        lines.push(paint(ANSI.green, text));
+      } else {
+        lines.push(text);
+      }
+      if (!operation.line.endsWith("\n")) {
+        lines.push(NO_NEWLINE_MARKER);
+      }
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+interface Hunk {
+  /** Index of the first operation in the hunk. */
+  start: number;
+  /** Index one past the last operation in the hunk. */
+  end: number;
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+function collectHunks(operations: DiffOperation[], context: number): Hunk[] {
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  operations.forEach((operation) => {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (operation.type !== "insert") oldLine += 1;
+    if (operation.type !== "delete") newLine += 1;
+  });
+
+  const changeIndexes = operations
+    .map((operation, index) => (operation.type === "equal" ? -1 : index))
+    .filter((index) => index !== -1);
+
+  const hunks: Hunk[] = [];
+  let groupStart = -1;
+  let groupEnd = -1;
+
+  const flush = () => {
+    if (groupStart === -1) return;
+    const start = Math.max(0, groupStart - context);
+    const end = Math.min(operations.length, groupEnd + 1 + context);
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = start; i < end; i += 1) {
+      if (operations[i].type !== "insert") oldCount += 1;
+      if (operations[i].type !== "delete") newCount += 1;
+    }
+    hunks.push({
+      start,
+      end,
+      oldStart: oldLineAt[start],
+      oldCount,
+      newStart: newLineAt[start],
+      newCount,
+    });
+  };
+
+  changeIndexes.forEach((index) => {
+    if (groupStart !== -1 && index - groupEnd - 1 <= context * 2) {
+      groupEnd = index;
+      return;
+    }
+    flush();
+    groupStart = index;
+    groupEnd = index;
+  });
+  flush();
+
+  return hunks;
+}
+
+function formatHunkHeader(hunk: Hunk): string {
+  return `@@ -${formatHunkRange(hunk.oldStart, hunk.oldCount)} +${formatHunkRange(
+    hunk.newStart,
+    hunk.newCount,
+  )} @@`;
+}
+
+function formatHunkRange(startIndex: number, count: number): string {
+  // Empty ranges point at the line before the change, as GNU diff does.
+  const start = count === 0 ? startIndex : startIndex + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Splits text into lines that keep their terminating newline so a missing
+ * final newline is reported as a change to the last line.
+ */
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/(?<=\n)/);
+  return lines.filter((line) => line.length > 0);
+}
+
+/**
+ * Myers' O(ND) difference algorithm over whole lines, in its linear-space
+ * form: each range is split at the middle snake of its edit path instead of
+ * keeping every frontier for backtracking, so memory stays O(N + M) however
+ * much changed. Within each run of changes, deletions come before insertions.
+ */
+function diffLines(a: string[], b: string[]): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, operations);
+
+  const ordered: DiffOperation[] = [];
+  let inserts: DiffOperation[] = [];
+  operations.forEach((operation) => {
+    if (operation.type === "insert") {
+      inserts.push(operation);
+      return;
+    }
+    if (operation.type === "equal") {
+      ordered.push(...inserts);
+      inserts = [];
+    }
+    ordered.push(operation);
+  });
+  ordered.push(...inserts);
+  return ordered;
+}
+
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  operations: DiffOperation[],
+): void {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    operations.push({ type: "equal", line: a[aStart] });
+    aStart += 1;
+    bStart += 1;
+  }
+  const rangeEnd = aEnd;
+  while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd -= 1;
+    bEnd -= 1;
+  }
+
+  if (aStart === aEnd) {
+    for (let y = bStart; y < bEnd; y += 1) {
+      operations.push({ type: "insert", line: b[y] });
+    }
+  } else if (bStart === bEnd) {
+    for (let x = aStart; x < aEnd; x += 1) {
+      operations.push({ type: "delete", line: a[x] });
+    }
+  } else {
+    const snake = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRange(a, aStart, snake.x, b, bStart, snake.y, operations);
+    for (let x = snake.x; x < snake.u; x += 1) {
+      operations.push({ type: "equal", line: a[x] });
+    }
+    diffRange(a, snake.u, aEnd, b, snake.v, bEnd, operations);
+  }
+
+  for (let x = aEnd; x < rangeEnd; x += 1) {
+    operations.push({ type: "equal", line: a[x] });
+  }
+}
+
+interface Snake {
+  /** Start of the snake in `a` and `b`. */
+  x: number;
+  y: number;
+  /** End of the snake (exclusive) in `a` and `b`. */
+  u: number;
+  v: number;
+}
+
+/**
+ * Runs the forward and reverse searches from both corners of the range until
+ * their frontiers overlap, and returns the diagonal run of equal lines where
+ * they meet. Positions are relative to the range start inside the loops.
+ */
+function findMiddleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+): Snake {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = delta % 2 !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x reached on each diagonal, from the start and from the end.
+  const forward = new Int32Array(2 * max + 3);
+  const reverse = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d += 1) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x += 1;
+        y += 1;
+      }
+      forward[offset + k] = x;
+      const reverseK = delta - k;
+      if (
+        odd &&
+        reverseK >= -(d - 1) &&
+        reverseK <= d - 1 &&
+        x + reverse[offset + reverseK] >= n
+      ) {
+        return {
+          x: aStart + startX,
+          y: bStart + startY,
+          u: aStart + x,
+          v: bStart + y,
+        };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && reverse[offset + k - 1] < reverse[offset + k + 1])
+          ? reverse[offset + k + 1]
+          : reverse[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x += 1;
+        y += 1;
+      }
+      reverse[offset + k] = x;
+      const forwardK = delta - k;
+      if (
+        !odd &&
+        forwardK >= -d &&
+        forwardK <= d &&
+        x + forward[offset + forwardK] >= n
+      ) {
+        return {
+          x: aEnd - x,
+          y: bEnd - y,
+          u: aEnd - startX,
+          v: bEnd - startY,
+        };
+      }
+    }
+  }
+
+  throw new Error("diff searches did not meet");
+}
@@ -0,0 +1,226 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/** A file staged in the git index. */
+export interface StagedFile {
+  /** Absolute path of the file in the work tree. */
+  path: string;
+  /** Root of the work tree the file belongs to. */
+  root: string;
+  /** Path relative to `root`, as git spells it. */
+  gitPath: string;
+  /** Index file mode, e.g. `100644`; empty for unresolved merge conflicts. */
+  mode: string;
+  /** Object id of the staged blob; empty for unresolved merge conflicts. */
+  objectId: string;
+  /** Whether the work tree copy differs from the staged blob. */
+  hasUnstagedChanges: boolean;
+  /** Whether the path still has unresolved merge conflicts. */
+  conflicted: boolean;
+}
+
+/**
+ * Lists files changed in the git work tree containing `cwd`, as absolute
+ * paths. Without `since` that is everything that differs from `HEAD` (staged
+ * or not) plus untracked files that are not gitignored. With `since`, it is
+ * everything changed after the merge base of `since` and `HEAD`, so a feature
+ * branch only sees its own changes. Deleted files are left out. Only the
+ * local repository is consulted; nothing is fetched.
+ */
+export function listChangedFiles(cwd: string, since?: string): string[] {
+  const root = resolveWorkTreeRoot(cwd);
+
+  let base: string;
+  if (since !== undefined) {
+    if (
+      !tryGit(root, ["rev-parse", "--verify", "--quiet", `${since}^{commit}`])
+    ) {
+      throw new Error(`unknown git revision "${since}"`);
+    }
+    base = tryGit(root, ["merge-base", since, "HEAD"])?.trim() || since;
+  } else {
+    base = tryGit(root, ["rev-parse", "--verify", "--quiet", "HEAD"])
+      ? "HEAD"
+      : "";
+  }
+
+  const tracked = base
+    ? git(root, ["diff", "--name-only", "-z", "--diff-filter=d", base])
+    : // No commits yet: everything staged is new.
+      git(root, ["diff", "--name-only", "-z", "--diff-filter=d", "--cached"]);
+  const untracked = git(root, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ]);
+
+  const files = new Set<string>();
+  [tracked, untracked].forEach((output) => {
+    splitPaths(output).forEach((relativePath) => {
+      const absolutePath = path.join(root, relativePath);
+      if (fs.statSync(absolutePath, { throwIfNoEntry: false })?.isFile()) {
+        files.add(absolutePath);
+      }
+    });
+  });
+  return Array.from(files).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Lists regular files that are added, copied, modified, renamed, or left
+ * conflicted in the index of the git work tree containing `cwd`.
+ */
+export function listStagedFiles(cwd: string): StagedFile[] {
+  const root = resolveWorkTreeRoot(cwd);
+  const staged = splitPaths(
+    git(root, ["diff", "--cached", "--name-only", "-z", "--diff-filter=ACMRU"]),
+  );
+  if (staged.length === 0) return [];
+
+  const unstaged = new Set(
+    splitPaths(git(root, ["diff", "--name-only", "-z"])),
+  );
+  const entries = new Map<string, { mode: string; objectId: string }>();
+  const conflicted = new Set<string>();
+  splitPaths(git(root, ["ls-files", "--stage", "-z"])).forEach((line) => {
+    // <mode> SP <object> SP <stage> TAB <path>
+    const tab = line.indexOf("\t");
+    const [mode, objectId, stage] = line.slice(0, tab).split(" ");
+    const gitPath = line.slice(tab + 1);
+    if (stage === "0") {
+      entries.set(gitPath, { mode, objectId });
+    } else {
+      conflicted.add(gitPath);
+    }
+  });
+
+  return staged.flatMap((gitPath): StagedFile[] => {
+    const entry = entries.get(gitPath);
+    const isConflicted = conflicted.has(gitPath);
+    // Symlinks (120000) and submodules (160000) have no text to format.
+    if (!isConflicted && !entry?.mode.startsWith("100")) return [];
+    return [
+      {
+        path: path.join(root, gitPath),
+        root,
+        gitPath,
+        mode: isConflicted ? "" : (entry?.mode ?? ""),
+        objectId: isConflicted ? "" : (entry?.objectId ?? ""),
+        hasUnstagedChanges: unstaged.has(gitPath),
+        conflicted: isConflicted,
+      },
+    ];
+  });
+}
+
+/** Reads the staged content of `file` from the index. */
+export function readStagedContent(file: StagedFile): string {
+  return git(file.root, ["cat-file", "blob", file.objectId]);
+}
+
+/**
+ * Stores `content` as a blob and points the index entry for `file` at it,
+ * keeping its mode. The working tree is not touched. The blob goes through
+ * the same clean filters (`core.autocrlf`, `.gitattributes`) as `git add`.
+ */
+export function writeStagedContent(file: StagedFile, content: string): void {
+  const objectId = git(
+    file.root,
+    ["hash-object", "-w", "--stdin", `--path=${file.gitPath}`],
+    content,
+  ).trim();
+  git(file.root, [
+    "update-index",
+    "--cacheinfo",
+    `${file.mode},${objectId},${file.gitPath}`,
+  ]);
+}
+
+/**
+ * Whether applying the change from `base` to `theirs` on top of `ours` would
+ * conflict, using the same line-based three-way merge as `git merge-file`.
+ */
+export function changesConflict(
+  base: string,
+  ours: string,
+  theirs: string,
+): boolean {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "erb-fmt-merge-"));
+  try {
+    const write = (name: string, text: string) => {
+      const filePath = path.join(dir, name);
+      fs.writeFileSync(filePath, text, "utf8");
+      return filePath;
+    };
+    const args = [
+      "merge-file",
+      "-p",
+      "--quiet",
+      write("ours", ours),
+      write("base", base),
+      write("theirs", theirs),
+    ];
+    try {
+      execFileSync("git", args, { stdio: "ignore" });
+      return false;
+    } catch (error) {
+      // merge-file exits with the number of conflicts, or a negative code
+      // (255 here) when it could not run.
+      const status = (error as { status?: number | null }).status;
+      if (typeof status === "number" && status > 0 && status < 128) {
+        return true;
+      }
+      throw new Error(`git merge-file failed: ${(error as Error).message}`);
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function splitPaths(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+function resolveWorkTreeRoot(cwd: string): string {
+  let output: string;
+  try {
+    output = execFileSync("git", ["rev-parse", "--show-toplevel"], {
+      cwd,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error("git is not installed or not on PATH");
+    }
+    throw new Error(`${cwd} is not inside a git work tree`);
+  }
+  return output.trim();
+}
+
+function git(cwd: string, args: string[], input?: string): string {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf8",
+      input,
+      stdio: [input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (error) {
+    const stderr = String((error as { stderr?: unknown }).stderr ?? "").trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+/** Runs git and returns its output, or `null` when the command fails. */
+function tryGit(cwd: string, args: string[]): string | null {
+  try {
+    return git(cwd, args);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,181 @@
+import fs from "fs";
+import path from "path";
+
+/** Name of the ignore file read from the working directory by default. */
+export const IGNORE_FILE_NAME = ".erb-fmtignore";
+
+/**
+ * Directories that are never worth walking in a Rails app. They are evaluated
+ * before ignore files, so a `!tmp/` entry in `.erb-fmtignore` re-includes them.
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  ".git/",
+  "node_modules/",
+  "**/vendor/bundle/",
+  "tmp/",
+];
+
+interface IgnoreRule {
+  pattern: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export interface IgnoreRuleSet {
+  /** Directory that anchored patterns are resolved against. */
+  baseDir: string;
+  rules: IgnoreRule[];
+}
+
+export interface IgnoreMatcher {
+  /**
+   * Returns true when `absolutePath`, or any directory above it, is excluded.
+   * Like git, a file inside an ignored directory cannot be re-included.
+   */
+  isIgnored(absolutePath: string, isDirectory: boolean): boolean;
+}
+
+/**
+ * Parses `.gitignore`-style content: blank lines and `#` comments are skipped,
+ * `!` negates, a trailing `/` matches directories only, and patterns containing
+ * a `/` are anchored to the base directory.
+ */
+export function parseIgnorePatterns(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach((rawLine) => {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) return;
+
+    let negated = false;
+    if (line.startsWith("!")) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith("/")) {
+      directoryOnly = true;
+      line = line.replace(/\/+$/, "");
+    }
+    if (!line) return;
+
+    const anchored = line.includes("/");
+    const body = line.replace(/^\/+/, "");
+    const prefix = anchored ? "^" : "^(?:.*/)?";
+    rules.push({
+      pattern: rawLine.trim(),
+      regex: new RegExp(`${prefix}${globToRegExpSource(body)}$`),
+      negated,
+      directoryOnly,
+    });
+  });
+  return rules;
+}
+
+export function loadIgnoreFile(filePath: string): IgnoreRuleSet {
+  const resolved = path.resolve(filePath);
+  const contents = fs.readFileSync(resolved, "utf8");
+  return {
+    baseDir: path.dirname(resolved),
+    rules: parseIgnorePatterns(contents),
+  };
+}
+
+export function createIgnoreMatcher(ruleSets: IgnoreRuleSet[]): IgnoreMatcher {
+  const directoryCache = new Map<string, boolean>();
+
+  const matchesRules = (absolutePath: string, isDirectory: boolean) => {
+    let ignored = false;
+    ruleSets.forEach(({ baseDir, rules }) => {
+      const relative = path.relative(baseDir, absolutePath);
+      if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+        return;
+      }
+      const candidate = relative.split(path.sep).join("/");
+      rules.forEach((rule) => {
+        if (rule.directoryOnly && !isDirectory) return;
+        if (rule.regex.test(candidate)) {
+          ignored = !rule.negated;
+        }
+      });
+    });
+    return ignored;
+  };
+
+  const isDirectoryIgnored = (directory: string): boolean => {
+    const cached = directoryCache.get(directory);
+    if (cached !== undefined) return cached;
+    const parent = path.dirname(directory);
+    const ignored =
+      (parent !== directory && isDirectoryIgnored(parent)) ||
+      matchesRules(directory, true);
+    directoryCache.set(directory, ignored);
+    return ignored;
+  };
+
+  return {
+    isIgnored(absolutePath, isDirectory) {
+      const resolved = path.resolve(absolutePath);
+      if (isDirectory) {
+        return isDirectoryIgnored(resolved);
+      }
+      const parent = path.dirname(resolved);
+      return isDirectoryIgnored(parent) || matchesRules(resolved, false);
+    },
+  };
+}
+
+function globToRegExpSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        const next = glob[i + 2];
+        if (atSegmentStart && next === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+          continue;
+        }
+        if (atSegmentStart && next === undefined) {
+          source += ".*";
+          i += 1;
+          continue;
+        }
+      }
+      source += "[^/]*";
+      continue;
+    }
+    if (char === "?") {
+      source += "[^/]";
+      continue;
+    }
+    if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 1;
+      continue;
+    }
+    if (char === "[") {
+      const closeIndex = glob.indexOf("]", i + 2);
+      if (closeIndex !== -1) {
+        let set = glob.slice(i + 1, closeIndex);
+        if (set.startsWith("!")) {
+          set = `^${set.slice(1)}`;
+        }
+        source += `[${set.replace(/\\/g, "\\\\")}]`;
+        i = closeIndex;
+        continue;
+      }
+    }
+    source += escapeRegExp(char);
+  }
+  return source;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[|\\{}()[\]^$+*?.]/g, "\\$&");
+}
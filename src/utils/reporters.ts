@@ -0,0 +1,209 @@
+import type {
+  FormatterDiagnostic,
+  FormatterDiagnosticCode,
+} from "../formatter/index.js";
+
+export type ReporterName = "text" | "json" | "sarif";
+
+export const REPORTER_NAMES: ReporterName[] = ["text", "json", "sarif"];
+
+/** Outcome of formatting one file, collected for the machine-readable reporters. */
+export interface FileReport {
+  /** Display path (relative to the working directory when possible). */
+  path: string;
+  /** Whether the formatted output differs from the source. */
+  changed: boolean;
+  diagnostics: FormatterDiagnostic[];
+  /** Read or formatter failure that prevented the file from being processed. */
+  error?: string;
+}
+
+interface JsonDiagnosticRecord {
+  code: FormatterDiagnosticCode;
+  severity: FormatterDiagnostic["severity"];
+  message: string;
+  /** 1-based position of the affected region, or null for document-wide issues. */
+  line: number | null;
+  column: number | null;
+  endLine: number | null;
+  endColumn: number | null;
+  /** Trimmed source line where the problem starts. */
+  snippet: string | null;
+  /** Secondary positions, such as the opener of an unclosed block. */
+  related?: {
+    message: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+  }[];
+}
+
+interface JsonFileRecord {
+  path: string;
+  changed: boolean;
+  diagnostics: JsonDiagnosticRecord[];
+  error?: string;
+}
+
+/** Rule metadata shared by the SARIF `tool.driver.rules` table. */
+const RULE_DESCRIPTIONS: Record<
+  FormatterDiagnosticCode | "unformatted" | "file-error",
+  string
+> = {
+  "html-parse-error":
+    "The HTML parser reported syntax errors, so the template was left unformatted.",
+  "html-subtree-skipped":
+    "An element with HTML parse errors was copied through unformatted (html.onParseError: skip-subtree).",
+  "placeholder-missing":
+    "An ERB placeholder could not be located in the generated HTML document.",
+  "placeholder-info-missing":
+    "The HTML printer dropped layout information for an ERB placeholder.",
+  "ruby-block-crosses-element":
+    "A Ruby block and an HTML element overlap instead of nesting, so the block's directives were left as written.",
+  "ruby-unclosed-block":
+    "A Ruby block opened in an ERB directive is never closed with `end`.",
+  "ruby-unexpected-closer":
+    "An ERB directive closes or continues a Ruby block that is not open.",
+  unformatted: "The file does not match erb-fmt output.",
+  "file-error": "The file could not be read or formatted.",
+};
+
+export function formatJsonReport(reports: FileReport[]): string {
+  const records: JsonFileRecord[] = reports.map((report) => ({
+    path: report.path,
+    changed: report.changed,
+    diagnostics: report.diagnostics.map(toJsonDiagnostic),
+    ...(report.error ? { error: report.error } : {}),
+  }));
+  return `${JSON.stringify(records, null, 2)}\n`;
+}
+
+/**
+ * Renders a SARIF 2.1.0 log suitable for GitHub code scanning uploads. Files
+ * that could not be read or formatted produce a `file-error` result. When
+ * `includeUnformatted` is set, every changed file also produces an
+ * `unformatted` result so a `--check` run surfaces in the same view.
+ */
+export function formatSarifReport(
+  reports: FileReport[],
+  toolVersion: string,
+  includeUnformatted: boolean,
+): string {
+  const results: unknown[] = [];
+
+  reports.forEach((report) => {
+    const uri = report.path.split("\\").join("/");
+    if (report.error) {
+      results.push({
+        ruleId: "file-error",
+        level: "error",
+        message: { text: report.error },
+        locations: [{ physicalLocation: { artifactLocation: { uri } } }],
+      });
+    }
+    report.diagnostics.forEach((diagnostic) => {
+      const record = toJsonDiagnostic(diagnostic);
+      const region =
+        record.line === null
+          ? undefined
+          : {
+              startLine: record.line,
+              startColumn: record.column,
+              endLine: record.endLine,
+              endColumn: record.endColumn,
+            };
+      results.push({
+        ruleId: diagnostic.code,
+        level: toSarifLevel(diagnostic.severity),
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri },
+              ...(region ? { region } : {}),
+            },
+          },
+        ],
+        ...(record.related
+          ? {
+              relatedLocations: record.related.map((related, id) => ({
+                id,
+                message: { text: related.message },
+                physicalLocation: {
+                  artifactLocation: { uri },
+                  region: {
+                    startLine: related.line,
+                    startColumn: related.column,
+                    endLine: related.endLine,
+                    endColumn: related.endColumn,
+                  },
+                },
+              })),
+            }
+          : {}),
+      });
+    });
+    if (includeUnformatted && report.changed) {
+      results.push({
+        ruleId: "unformatted",
+        level: "warning",
+        message: { text: `${report.path} is not formatted with erb-fmt.` },
+        locations: [{ physicalLocation: { artifactLocation: { uri } } }],
+      });
+    }
+  });
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "erb-fmt",
+            version: toolVersion,
+            informationUri: "https://github.com/ryancbahan/erb-fmt",
+            rules: Object.entries(RULE_DESCRIPTIONS).map(([id, text]) => ({
+              id,
+              shortDescription: { text },
+            })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+function toJsonDiagnostic(
+  diagnostic: FormatterDiagnostic,
+): JsonDiagnosticRecord {
+  const { location } = diagnostic;
+  return {
+    code: diagnostic.code,
+    severity: diagnostic.severity,
+    message: diagnostic.message,
+    line: location?.line ?? null,
+    column: location?.column ?? null,
+    endLine: location?.endLine ?? null,
+    endColumn: location?.endColumn ?? null,
+    snippet: diagnostic.snippet ?? null,
+    ...(diagnostic.related
+      ? {
+          related: diagnostic.related.map(({ message, location }) => ({
+            message,
+            ...location,
+          })),
+        }
+      : {}),
+  };
+}
+
+function toSarifLevel(
+  severity: FormatterDiagnostic["severity"],
+): "error" | "warning" | "note" {
+  if (severity === "info") return "note";
+  return severity;
+}
@@ -0,0 +1,46 @@
+import {
+  formatERB,
+  type FormatterConfigInput,
+  type FormatterDiagnostic,
+} from "../formatter/index.js";
+import { createParserSession, type ParsedERB } from "../parser.js";
+
+/** One template to format, as sent to a worker. */
+export interface FormatTask {
+  filePath: string;
+  source: string;
+  /** Fully resolved config for the file (discovered config plus overrides). */
+  config: FormatterConfigInput | undefined;
+}
+
+/**
+ * What a worker reports back. Only plain data crosses the thread boundary, so
+ * segments and syntax trees stay behind.
+ */
+export type FormatTaskResult =
+  | { status: "format-error"; message: string }
+  | {
+      status: "formatted";
+      output: string;
+      diagnostics: FormatterDiagnostic[];
+    };
+
+/** A worker formats many files; its parsers are reused and trees freed per task. */
+const parsers = createParserSession();
+
+export function runFormatTask(task: FormatTask): FormatTaskResult {
+  let parsed: ParsedERB | undefined;
+  try {
+    parsed = parsers.parse(task.source);
+    const result = formatERB(parsed, task.config);
+    return {
+      status: "formatted",
+      output: result.output,
+      diagnostics: result.diagnostics,
+    };
+  } catch (error) {
+    return { status: "format-error", message: (error as Error).message };
+  } finally {
+    if (parsed) parsers.release(parsed);
+  }
+}
@@ -0,0 +1,11 @@
+import { parentPort } from "worker_threads";
+import { runFormatTask, type FormatTask } from "./formatTask.js";
+
+// Importing formatTask loads the Tree-sitter grammars for this thread; each
+// worker keeps its own parsers for its whole lifetime.
+parentPort?.on("message", (message: { index: number; task: FormatTask }) => {
+  parentPort?.postMessage({
+    index: message.index,
+    result: runFormatTask(message.task),
+  });
+});
@@ -0,0 +1,126 @@
+import fs from "fs";
+import os from "os";
+import { createRequire } from "module";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import type { FormatTask, FormatTaskResult } from "./formatTask.js";
+
+/** Default for `--jobs`: one worker per available CPU. */
+export function defaultJobCount(): number {
+  return typeof os.availableParallelism === "function"
+    ? os.availableParallelism()
+    : os.cpus().length;
+}
+
+/**
+ * Formats `tasks` on up to `jobs` worker threads. `onResult` is called in task
+ * order as soon as every earlier task has finished, so output stays
+ * deterministic while later files are still being formatted. Rejects when a
+ * worker fails to start or crashes.
+ */
+export function formatInWorkers(
+  tasks: FormatTask[],
+  jobs: number,
+  onResult: (result: FormatTaskResult, index: number) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    const finished = new Map<number, FormatTaskResult>();
+    let nextTask = 0;
+    let nextResult = 0;
+    let settled = false;
+
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      workers.forEach((worker) => void worker.terminate());
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const dispatch = (worker: Worker) => {
+      if (nextTask >= tasks.length) return;
+      worker.postMessage({ index: nextTask, task: tasks[nextTask] });
+      nextTask += 1;
+    };
+
+    const flush = () => {
+      let result = finished.get(nextResult);
+      while (result) {
+        finished.delete(nextResult);
+        onResult(result, nextResult);
+        nextResult += 1;
+        result = finished.get(nextResult);
+      }
+      if (nextResult === tasks.length) settle();
+    };
+
+    if (tasks.length === 0) {
+      settle();
+      return;
+    }
+
+    const count = Math.max(1, Math.min(jobs, tasks.length));
+    for (let i = 0; i < count; i += 1) {
+      const worker = startWorker();
+      workers.push(worker);
+      worker.on(
+        "message",
+        (message: { index: number; result: FormatTaskResult }) => {
+          finished.set(message.index, message.result);
+          dispatch(worker);
+          try {
+            flush();
+          } catch (error) {
+            settle(error as Error);
+          }
+        },
+      );
+      worker.on("error", (error) => settle(error));
+      worker.on("exit", (code) => {
+        if (code !== 0) {
+          settle(new Error(`format worker exited with code ${code}`));
+        }
+      });
+      dispatch(worker);
+    }
+  });
+}
+
+function startWorker(): Worker {
+  const extension = path.extname(fileURLToPath(import.meta.url));
+  const entry = new URL(`./formatWorker${extension}`, import.meta.url);
+  if (extension !== ".ts") {
+    return new Worker(entry);
+  }
+  // Running from source (tests, `tsx src/cli.ts`): workers do not inherit the
+  // TypeScript loader, so register it before importing the entry point.
+  return new Worker(
+    `import(${JSON.stringify(resolveTsxLoader())}).then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); });`,
+    { eval: true },
+  );
+}
+
+/**
+ * URL of the ESM build of `tsx/esm/api`. `require.resolve` only sees the
+ * CommonJS export, and the eval'd bootstrap resolves bare specifiers from the
+ * working directory, so the `import` target is read from the exports map.
+ */
+function resolveTsxLoader(): string {
+  const manifestPath = createRequire(import.meta.url).resolve(
+    "tsx/package.json",
+  );
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as {
+    exports: Record<string, { import: { default: string } }>;
+  };
+  return pathToFileURL(
+    path.join(
+      path.dirname(manifestPath),
+      manifest.exports["./esm/api"].import.default,
+    ),
+  ).href;
+}
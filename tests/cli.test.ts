@@ -1,13 +1,24 @@
+import { execFileSync } from "child_process";
 import fs from "fs";
 import os from "os";
 import path from "path";
+import { Readable } from "stream";
 import { describe, it, expect, vi, afterEach, afterAll } from "vitest";
 import { runCli, resolveTargetFiles } from "../src/cli.js";
 import { parseERB } from "../src/parser.js";
 import { formatERB } from "../src/formatter/index.js";
+import { formatSarifReport } from "../src/utils/reporters.js";
 
 const TMP_PREFIX = "erb-cli-test-";
 
+/** The parts of a SARIF result the reporter tests look at. */
+interface SarifResult {
+  ruleId: string;
+  level: string;
+  message: { text: string };
+  locations: { physicalLocation: { artifactLocation: { uri: string } } }[];
+}
+
 describe("CLI target resolution", () => {
   it("expands directories, globs, and tracks missing patterns", () => {
     const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
@@ -39,12 +50,14 @@ describe("CLI target resolution", () => {
 
 describe("runCli", () => {
   const originalExitCode = process.exitCode;
+  const originalCwd = process.cwd();
   const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
   const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
   const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
   afterEach(() => {
     process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
     logSpy.mockClear();
     warnSpy.mockClear();
     errorSpy.mockClear();
@@ -86,6 +99,650 @@ describe("runCli", () => {
     fs.rmSync(tempDir, { recursive: true, force: true });
   });
 
+  it("reports unformatted files without writing when --check is provided", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const formattedFile = path.join(tempDir, "clean.erb");
+    const unformattedFile = path.join(tempDir, "messy.erb");
+
+    const unformatted = `<div>
+<% if foo %>
+<span>Hi</span>
+<% end %></div>`;
+    const formatted = formatERB(parseERB(unformatted)).output;
+
+    fs.writeFileSync(formattedFile, formatted);
+    fs.writeFileSync(unformattedFile, unformatted);
+
+    const exitCode = await runCli(["--check", tempDir]);
+
+    expect(exitCode).toBe(4);
+    expect(fs.readFileSync(unformattedFile, "utf8")).toBe(unformatted);
+    const logged = logSpy.mock.calls.map((call) => String(call[0]));
+    expect(logged.some((line) => line.includes("messy.erb"))).toBe(true);
+    expect(logged.some((line) => line.includes("clean.erb"))).toBe(false);
+    expect(logged).toContain("\nChecked 2 files: 1 unformatted, 0 errored");
+
+    logSpy.mockClear();
+    expect(await runCli(["--check", formattedFile])).toBe(0);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("prints a unified diff for each changed file when --diff is provided", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const fileA = path.join(tempDir, "a.erb");
+    const fileB = path.join(tempDir, "b.erb");
+    fs.writeFileSync(fileA, "<div>\n<span>Hi</span>\n</div>\n");
+    fs.writeFileSync(fileB, "<p>Done</p>");
+
+    const writeSpy = vi
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    try {
+      const exitCode = await runCli(["--diff", "--no-color", tempDir]);
+      expect(exitCode).toBe(4);
+
+      const written = writeSpy.mock.calls.map((call) => String(call[0]));
+      expect(written).toHaveLength(2);
+      expect(written[0]).toContain("--- a/");
+      expect(written[0]).toContain("a.erb\n");
+      expect(written[0]).toContain(
+        "@@ -1,3 +1,3 @@\n <div>\n-<span>Hi</span>\n+  <span>Hi</span>\n </div>\n",
+      );
+      expect(written[1]).toContain(
+        "@@ -1 +1 @@\n-<p>Done</p>\n\\ No newline at end of file\n+<p>Done</p>\n",
+      );
+      expect(written.join("")).not.toContain("\u001b[");
+    } finally {
+      writeSpy.mockRestore();
+    }
+
+    expect(fs.readFileSync(fileB, "utf8")).toBe("<p>Done</p>");
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("discovers the nearest config for each file and lets explicit flags win", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const adminViews = path.join(tempDir, "engines", "admin", "app", "views");
+    const billingViews = path.join(
+      tempDir,
+      "engines",
+      "billing",
+      "app",
+      "views",
+    );
+    fs.mkdirSync(adminViews, { recursive: true });
+    fs.mkdirSync(billingViews, { recursive: true });
+
+    fs.writeFileSync(
+      path.join(tempDir, "package.json"),
+      JSON.stringify({ name: "app", "erb-fmt": { indentation: { size: 3 } } }),
+    );
+    fs.writeFileSync(
+      path.join(tempDir, "engines", "admin", ".erb-fmtrc"),
+      JSON.stringify({ indentation: { size: 4 } }),
+    );
+
+    const source = `<div>\n<span>Hi</span>\n</div>\n`;
+    const adminFile = path.join(adminViews, "show.erb");
+    const billingFile = path.join(billingViews, "show.erb");
+    fs.writeFileSync(adminFile, source);
+    fs.writeFileSync(billingFile, source);
+
+    expect(await runCli(["--write", tempDir])).toBe(0);
+    expect(fs.readFileSync(adminFile, "utf8")).toBe(
+      `<div>\n    <span>Hi</span>\n</div>\n`,
+    );
+    expect(fs.readFileSync(billingFile, "utf8")).toBe(
+      `<div>\n   <span>Hi</span>\n</div>\n`,
+    );
+
+    fs.writeFileSync(adminFile, source);
+    expect(
+      await runCli(["--write", "--config", "indentation.size=1", adminFile]),
+    ).toBe(0);
+    expect(fs.readFileSync(adminFile, "utf8")).toBe(
+      `<div>\n <span>Hi</span>\n</div>\n`,
+    );
+
+    fs.writeFileSync(adminFile, source);
+    expect(await runCli(["--write", "--no-config", adminFile])).toBe(0);
+    expect(fs.readFileSync(adminFile, "utf8")).toBe(
+      `<div>\n  <span>Hi</span>\n</div>\n`,
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("skips default exclusions, ignore files, and --exclude globs", async () => {
+    const tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX)),
+    );
+    const files = {
+      kept: path.join(tempDir, "app", "views", "show.erb"),
+      legacy: path.join(tempDir, "app", "views", "legacy", "old.erb"),
+      excluded: path.join(tempDir, "app", "views", "mailer.text.erb"),
+      reincluded: path.join(tempDir, "app", "views", "generated", "keep.erb"),
+      generated: path.join(tempDir, "app", "views", "generated", "skip.erb"),
+      nodeModules: path.join(tempDir, "node_modules", "pkg", "view.erb"),
+      bundle: path.join(tempDir, "vendor", "bundle", "gem", "view.erb"),
+      tmp: path.join(tempDir, "tmp", "cache.erb"),
+    };
+    Object.values(files).forEach((filePath) => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, "<div>\n<p>Hi</p>\n</div>");
+    });
+    fs.writeFileSync(
+      path.join(tempDir, ".erb-fmtignore"),
+      "# legacy views are frozen\n/app/views/legacy/\napp/views/generated/*.erb\n!keep.erb\n",
+    );
+
+    process.chdir(tempDir);
+    const exitCode = await runCli([
+      "--write",
+      "--exclude",
+      "*.text.erb",
+      ".",
+      files.legacy,
+    ]);
+
+    expect(exitCode).toBe(0);
+    const changed = Object.entries(files)
+      .filter(
+        ([, filePath]) => !fs.readFileSync(filePath, "utf8").endsWith("</div>"),
+      )
+      .map(([name]) => name);
+    expect(changed.sort()).toEqual(["kept", "reincluded"]);
+    expect(warnSpy).toHaveBeenCalledWith(
+      `notice: skipping ignored file ${path.join("app", "views", "legacy", "old.erb")}`,
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("formats stdin to stdout using the logical --stdin-filepath", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    fs.writeFileSync(
+      path.join(tempDir, ".erb-fmtrc"),
+      JSON.stringify({ indentation: { size: 4 } }),
+    );
+    const source = `<div>\n<% if foo %>\n<span>Hi</span>\n<% end %>\n</div>`;
+
+    const writeSpy = vi
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    try {
+      const exitCode = await runCli(
+        ["--stdin-filepath", path.join(tempDir, "buffer.html.erb")],
+        Readable.from([source]),
+      );
+      expect(exitCode).toBe(0);
+      expect(writeSpy.mock.calls.map((call) => call[0]).join("")).toBe(
+        formatERB(parseERB(source), { indentation: { size: 4 } }).output,
+      );
+      expect(logSpy).not.toHaveBeenCalled();
+
+      writeSpy.mockClear();
+      expect(await runCli(["-"], Readable.from(["<p>Hi</p>\n"]))).toBe(0);
+      expect(writeSpy.mock.calls.map((call) => call[0]).join("")).toBe(
+        "<p>Hi</p>\n",
+      );
+    } finally {
+      writeSpy.mockRestore();
+    }
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("limits formatting to --lines or byte ranges", async () => {
+    const source = `<div>\n<p>One   <%= one %></p>\n<p>Two   <%= two %></p>\n</div>\n`;
+
+    const writeSpy = vi
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    const captured = () => writeSpy.mock.calls.map((call) => call[0]).join("");
+    try {
+      expect(
+        await runCli(["--stdin", "--lines", "3"], Readable.from([source])),
+      ).toBe(0);
+      expect(captured()).toBe(
+        `<div>\n<p>One   <%= one %></p>\n  <p>Two <%= two %></p>\n</div>\n`,
+      );
+
+      writeSpy.mockClear();
+      const start = Buffer.byteLength(source.slice(0, source.indexOf("One")));
+      expect(
+        await runCli(
+          ["--stdin", `--range-start=${start}`, `--range-end=${start + 3}`],
+          Readable.from([source]),
+        ),
+      ).toBe(0);
+      expect(captured()).toBe(
+        `<div>\n  <p>One <%= one %></p>\n<p>Two   <%= two %></p>\n</div>\n`,
+      );
+    } finally {
+      writeSpy.mockRestore();
+    }
+
+    expect(await runCli(["--lines", "2-1", "a.erb"])).toBe(0);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "error: --lines requires a 1-based range such as 10-40",
+    );
+  });
+
+  it("keeps --write output terse unless --regions or --verbose is set", async () => {
+    const tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX)),
+    );
+    const clean = path.join(tempDir, "clean.erb");
+    const messy = path.join(tempDir, "messy.erb");
+    const messySource = `<div>\n<p>Hi</p>\n</div>`;
+    fs.writeFileSync(clean, formatERB(parseERB(messySource)).output);
+    fs.writeFileSync(messy, messySource);
+
+    process.chdir(tempDir);
+    const logged = () => logSpy.mock.calls.map((call) => String(call[0]));
+
+    expect(await runCli(["--write", "."])).toBe(0);
+    expect(logged().some((line) => line.includes("=== Regions"))).toBe(false);
+    expect(logged()).toContain("Already formatted clean.erb");
+
+    logSpy.mockClear();
+    fs.writeFileSync(messy, messySource);
+    expect(await runCli(["--write", "--quiet", "."])).toBe(0);
+    expect(logged()).toEqual(["Formatted messy.erb"]);
+
+    logSpy.mockClear();
+    expect(await runCli(["--write", "--verbose", "."])).toBe(0);
+    expect(logged().some((line) => line.includes("=== Regions"))).toBe(true);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("emits JSON and SARIF reports instead of text output", async () => {
+    const tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX)),
+    );
+    fs.writeFileSync(
+      path.join(tempDir, "broken.erb"),
+      `<div data-json="{ \\"items\\": [ { \\"name\\": \\"Foo\\" } ] }">Text</div>`,
+    );
+    fs.writeFileSync(path.join(tempDir, "messy.erb"), "<div><p>Hi</p></div>");
+    process.chdir(tempDir);
+
+    const writeSpy = vi
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    const captured = () => writeSpy.mock.calls.map((call) => call[0]).join("");
+    try {
+      expect(await runCli(["--reporter", "json", "."])).toBe(1);
+      const records = JSON.parse(captured());
+      expect(records).toEqual([
+        {
+          path: "broken.erb",
+          changed: false,
+          diagnostics: [
+            expect.objectContaining({
+              code: "html-parse-error",
+              severity: "error",
+            }),
+          ],
+        },
+        { path: "messy.erb", changed: true, diagnostics: [] },
+      ]);
+      expect(logSpy).not.toHaveBeenCalled();
+
+      writeSpy.mockClear();
+      expect(await runCli(["--check", "--reporter=sarif", "."])).toBe(1);
+      const sarif = JSON.parse(captured());
+      expect(sarif.version).toBe("2.1.0");
+      expect(sarif.runs[0].tool.driver.name).toBe("erb-fmt");
+      const results: SarifResult[] = sarif.runs[0].results;
+      expect(
+        results.map((result) => [
+          result.ruleId,
+          result.locations[0].physicalLocation.artifactLocation.uri,
+        ]),
+      ).toEqual([
+        ["html-parse-error", "broken.erb"],
+        ["unformatted", "messy.erb"],
+      ]);
+    } finally {
+      writeSpy.mockRestore();
+    }
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports files that could not be formatted in SARIF logs", () => {
+    const sarif = JSON.parse(
+      formatSarifReport(
+        [
+          {
+            path: "app\\views\\gone.erb",
+            changed: false,
+            diagnostics: [],
+            error: "ENOENT: no such file or directory",
+          },
+        ],
+        "0.0.0",
+        true,
+      ),
+    );
+    const results: SarifResult[] = sarif.runs[0].results;
+    expect(results).toEqual([
+      {
+        ruleId: "file-error",
+        level: "error",
+        message: { text: "ENOENT: no such file or directory" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "app/views/gone.erb" },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("skips files recorded as formatted in --cache", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const filePath = path.join(tempDir, "a.erb");
+    const cachePath = path.join(
+      tempDir,
+      "node_modules/.cache/erb-fmt/cache.json",
+    );
+    fs.writeFileSync(filePath, "<div>\n  <p>A</p>\n</div>\n");
+    process.chdir(tempDir);
+
+    const check = async (...extra: string[]) => {
+      logSpy.mockClear();
+      const code = await runCli(["--check", "--jobs", "1", ...extra, "a.erb"]);
+      return { code, logs: logSpy.mock.calls.map((call) => call[0]) };
+    };
+    // Same size and modification time, but no longer formatted.
+    const tamper = () => {
+      fs.writeFileSync(filePath, "<div>\n<p>A</p>\n  </div>\n");
+      fs.utimesSync(filePath, 1_700_000_000, 1_700_000_000);
+    };
+
+    expect((await check("--cache")).code).toBe(0);
+    const cached = JSON.parse(fs.readFileSync(cachePath, "utf8"));
+    expect(cached).toMatchObject({ strategy: "content" });
+    expect(Object.keys(cached.files)).toEqual([fs.realpathSync(filePath)]);
+
+    tamper();
+    expect((await check("--cache")).code).toBe(4);
+
+    fs.writeFileSync(filePath, "<div>\n  <p>A</p>\n</div>\n");
+    fs.utimesSync(filePath, 1_700_000_000, 1_700_000_000);
+    const location = path.join(tempDir, "meta.json");
+    const metadata = [
+      "--cache",
+      "--cache-strategy",
+      "metadata",
+      "--cache-location",
+      location,
+    ];
+    expect((await check(...metadata)).code).toBe(0);
+    tamper();
+    expect(await check(...metadata)).toMatchObject({
+      code: 0,
+      logs: ["\nChecked 1 file: 0 unformatted, 0 errored"],
+    });
+    expect(
+      (await check(...metadata, "--config", "indentation.size=4")).code,
+    ).toBe(4);
+
+    expect(await runCli(["--cache-strategy", "metadata", "a.erb"])).toBe(0);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "error: --cache-location and --cache-strategy require --cache",
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("checks only files changed in git with --changed and --since", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const unformatted = "<div>\n<p>A</p>\n</div>\n";
+    const git = (...args: string[]) =>
+      execFileSync(
+        "git",
+        ["-c", "user.name=t", "-c", "user.email=t", ...args],
+        {
+          cwd: tempDir,
+          stdio: "ignore",
+        },
+      );
+    process.chdir(tempDir);
+    expect(await runCli(["--check", "--changed"])).toBe(2);
+    expect(errorSpy.mock.calls[0][0]).toMatch(
+      /^error: --changed: .* is not inside a git work tree$/,
+    );
+
+    git("init", "-q");
+    fs.writeFileSync(path.join(tempDir, "base.erb"), unformatted);
+    fs.writeFileSync(path.join(tempDir, "kept.erb"), unformatted);
+    git("add", ".");
+    git("commit", "-q", "-m", "base");
+    git("tag", "base");
+    fs.writeFileSync(path.join(tempDir, "committed.erb"), unformatted);
+    git("add", ".");
+    git("commit", "-q", "-m", "next");
+    fs.appendFileSync(path.join(tempDir, "base.erb"), "<p>B</p>\n");
+    fs.writeFileSync(path.join(tempDir, "new.erb"), unformatted);
+    fs.writeFileSync(path.join(tempDir, "notes.txt"), "x");
+    fs.writeFileSync(path.join(tempDir, ".erb-fmtignore"), "new.erb\n");
+
+    const checked = async (...args: string[]) => {
+      logSpy.mockClear();
+      expect(await runCli(["--check", "--jobs", "1", ...args])).toBe(4);
+      return logSpy.mock.calls
+        .map((call) => String(call[0]))
+        .filter((line) => line.startsWith("Unformatted "));
+    };
+    expect(await checked("--changed")).toEqual(["Unformatted base.erb"]);
+    fs.rmSync(path.join(tempDir, ".erb-fmtignore"));
+    expect(await checked("--changed")).toEqual([
+      "Unformatted base.erb",
+      "Unformatted new.erb",
+    ]);
+    expect(await checked("--since=base", "new.erb", "committed.erb")).toEqual([
+      "Unformatted committed.erb",
+      "Unformatted new.erb",
+    ]);
+
+    git("add", ".");
+    git("commit", "-q", "-m", "rest");
+    logSpy.mockClear();
+    expect(await runCli(["--check", "--changed"])).toBe(0);
+    expect(logSpy).toHaveBeenCalledWith("No changed templates to format");
+
+    expect(await runCli(["--changed", "--since", "nope"])).toBe(2);
+    expect(errorSpy).toHaveBeenLastCalledWith(
+      'error: --since: unknown git revision "nope"',
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("formats the staged content of templates in the git index with --staged", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const unformatted = "<div>\n<p>A</p>\n</div>\n";
+    const formatted = "<div>\n  <p>A</p>\n</div>\n";
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: tempDir, encoding: "utf8" });
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(path.join(tempDir, name), content);
+    const read = (name: string) =>
+      fs.readFileSync(path.join(tempDir, name), "utf8");
+    process.chdir(tempDir);
+
+    git("init", "-q");
+    write("clean.erb", unformatted);
+    write("partial.erb", unformatted);
+    write("conflict.erb", unformatted);
+    write("unstaged.erb", unformatted);
+    git("add", "clean.erb", "partial.erb", "conflict.erb");
+    write("partial.erb", `${unformatted}<p>later</p>\n`);
+    write("conflict.erb", "<div>\n<p>B</p>\n</div>\n");
+
+    expect(await runCli(["--staged", "--check"])).toBe(4);
+    expect(logSpy).toHaveBeenCalledWith("Unformatted clean.erb");
+    expect(git("show", ":clean.erb")).toBe(unformatted);
+
+    expect(await runCli(["--staged"])).toBe(2);
+    expect(git("show", ":clean.erb")).toBe(formatted);
+    expect(read("clean.erb")).toBe(formatted);
+    expect(git("show", ":partial.erb")).toBe(formatted);
+    expect(read("partial.erb")).toBe(`${unformatted}<p>later</p>\n`);
+    expect(git("show", ":conflict.erb")).toBe(unformatted);
+    expect(read("conflict.erb")).toBe("<div>\n<p>B</p>\n</div>\n");
+    expect(read("unstaged.erb")).toBe(unformatted);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "error: refusing to format conflict.erb: formatting the staged content conflicts with its unstaged changes; stage or stash them first",
+    );
+
+    git("rm", "-q", "-f", "--cached", "conflict.erb");
+    logSpy.mockClear();
+    expect(await runCli(["--staged", "--check", "partial.erb"])).toBe(0);
+    expect(logSpy).toHaveBeenLastCalledWith(
+      "\nChecked 1 file: 0 unformatted, 0 errored",
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("formats on worker threads with --jobs in target order", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    const brokenDir = path.join(tempDir, "c-broken");
+    fs.mkdirSync(brokenDir);
+    fs.writeFileSync(path.join(brokenDir, ".erb-fmtrc"), "{ nope");
+    fs.writeFileSync(path.join(tempDir, "a.erb"), "<div>\n<p>A</p>\n</div>\n");
+    fs.writeFileSync(
+      path.join(tempDir, "b.erb"),
+      "<div>\n  <p>B</p>\n</div>\n",
+    );
+    fs.writeFileSync(path.join(brokenDir, "c.erb"), "<p>C</p>\n");
+    fs.writeFileSync(path.join(tempDir, "d.erb"), "<ul><li>D</li>\n</ul>\n");
+    fs.writeFileSync(path.join(tempDir, "e.erb"), "<div><p>E</p></div>\n");
+    process.chdir(tempDir);
+
+    const run = async (jobs: string) => {
+      logSpy.mockClear();
+      errorSpy.mockClear();
+      const code = await runCli(["--check", "--jobs", jobs, "."]);
+      return {
+        code,
+        logs: logSpy.mock.calls.map((call) => call[0]),
+        errors: errorSpy.mock.calls.map((call) => String(call[0])),
+      };
+    };
+
+    const parallel = await run("3");
+    expect(warnSpy).not.toHaveBeenCalled();
+    expect(parallel.code).toBe(2);
+    expect(parallel.logs).toEqual([
+      "Unformatted a.erb",
+      "Unformatted d.erb",
+      "Unformatted e.erb",
+      "\nChecked 5 files: 3 unformatted, 1 errored",
+      "Run erb-fmt --write on the files above to apply the formatting.",
+    ]);
+    expect(parallel.errors).toEqual([
+      expect.stringContaining("c-broken/.erb-fmtrc"),
+    ]);
+    await expect(run("1")).resolves.toEqual(parallel);
+
+    expect(await runCli(["--jobs", "0", "."])).toBe(0);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "error: --jobs requires a positive integer",
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("records write failures against the file when formatting on workers", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    ["a", "b", "c"].forEach((name) => {
+      fs.writeFileSync(
+        path.join(tempDir, `${name}.erb`),
+        "<div><p>X</p></div>\n",
+      );
+    });
+    process.chdir(tempDir);
+
+    const writeFileSync = fs.writeFileSync;
+    const writeFileSpy = vi
+      .spyOn(fs, "writeFileSync")
+      .mockImplementation((file, ...rest) => {
+        if (String(file).endsWith("b.erb")) {
+          throw new Error("EACCES: permission denied");
+        }
+        writeFileSync(file, ...rest);
+      });
+    const stdoutSpy = vi
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    try {
+      expect(
+        await runCli(["--write", "--jobs", "2", "--reporter", "json", "."]),
+      ).toBe(2);
+      expect(warnSpy).not.toHaveBeenCalled();
+      const reports = JSON.parse(
+        stdoutSpy.mock.calls.map((call) => call[0]).join(""),
+      ) as { path: string; error?: string }[];
+      expect(reports).toEqual([
+        expect.objectContaining({ path: "a.erb" }),
+        expect.objectContaining({
+          path: "b.erb",
+          error: "failed to write b.erb: EACCES: permission denied",
+        }),
+        expect.objectContaining({ path: "c.erb" }),
+      ]);
+      expect(reports[0].error).toBeUndefined();
+      expect(
+        writeFileSpy.mock.calls.filter(([file]) =>
+          String(file).endsWith("b.erb"),
+        ),
+      ).toHaveLength(1);
+    } finally {
+      stdoutSpy.mockRestore();
+      writeFileSpy.mockRestore();
+    }
+    expect(fs.readFileSync(path.join(tempDir, "c.erb"), "utf8")).toBe(
+      "<div>\n  <p>X</p>\n</div>\n",
+    );
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("prints diagnostics as path:line:col with the offending line", async () => {
+    const tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX)),
+    );
+    fs.writeFileSync(
+      path.join(tempDir, "broken.erb"),
+      `<div>
+  <%= link_to "Home", root_path %>
+</div>
+<p class="lead>Intro
+`,
+    );
+    process.chdir(tempDir);
+
+    expect(await runCli(["--check", "broken.erb"])).toBe(1);
+    const logged = logSpy.mock.calls.map((call) => String(call[0]));
+    expect(logged).toContain(
+      "broken.erb:4:1: error [html-parse-error] Malformed start tag <p> (check for an unterminated attribute quote) at the top level",
+    );
+    expect(logged).toContain(`    <p class="lead>Intro`);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
   it("returns usage when no targets are supplied", async () => {
     const exitCode = await runCli([]);
     expect(exitCode).toBe(0);
@@ -0,0 +1,245 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runCli } from "../src/cli.js";
+import { runDaemonClient, stopDaemon } from "../src/daemon/client.js";
+import {
+  DAEMON_SOCKET_ENV,
+  resolveSocketPath,
+} from "../src/daemon/protocol.js";
+import { runDaemon } from "../src/daemon/server.js";
+
+const TMP_PREFIX = "erb-daemon-test-";
+
+describe("runDaemon", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    tempDirs.splice(0).forEach((dir) => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  const createSocketPath = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    tempDirs.push(dir);
+    return { dir: fs.realpathSync(dir), socketPath: path.join(dir, "d.sock") };
+  };
+
+  const runClient = async (
+    socketPath: string,
+    argv: string[],
+    stdinText = "",
+  ) => {
+    const stdout = collect();
+    const stderr = collect();
+    const code = await runDaemonClient(argv, {
+      socketPath,
+      spawnDaemon: null,
+      stdin: PassThrough.from([stdinText]),
+      stdout: stdout.stream,
+      stderr: stderr.stream,
+      color: false,
+    });
+    return { code, stdout: stdout.text(), stderr: stderr.text() };
+  };
+
+  it("runs forwarded invocations in the client's directory", async () => {
+    const { dir, socketPath } = createSocketPath();
+    const calls: string[][] = [];
+    const daemon = runDaemon({
+      socketPath,
+      idleTimeoutMs: 60_000,
+      run: async (argv, stdin) => {
+        calls.push(argv);
+        let input = "";
+        for await (const chunk of stdin) input += String(chunk);
+        process.stdout.write(`cwd=${process.cwd()} stdin=${input}\n`);
+        process.stderr.write("warning: something\n");
+        return 4;
+      },
+    });
+    await waitForSocket(socketPath);
+
+    const previousCwd = process.cwd();
+    process.chdir(dir);
+    const result = await runClient(socketPath, ["--stdin"], "<p>x</p>");
+    process.chdir(previousCwd);
+
+    expect(result).toEqual({
+      code: 4,
+      stdout: `cwd=${dir} stdin=<p>x</p>\n`,
+      stderr: "warning: something\n",
+    });
+    expect(calls).toEqual([["--no-color", "--stdin"]]);
+    expect(process.cwd()).toBe(previousCwd);
+    expect((fs.statSync(socketPath).mode & 0o777).toString(8)).toBe("600");
+
+    await expect(stopDaemon(socketPath)).resolves.toBe(true);
+    await expect(daemon).resolves.toBe(0);
+    await expect(stopDaemon(socketPath)).resolves.toBe(false);
+  });
+
+  it("forwards stdin when only --stdin-filepath is given", async () => {
+    const { socketPath } = createSocketPath();
+    const daemon = runDaemon({
+      socketPath,
+      idleTimeoutMs: 60_000,
+      run: async (_argv, stdin) => {
+        let input = "";
+        for await (const chunk of stdin) input += String(chunk);
+        process.stdout.write(input);
+        return 0;
+      },
+    });
+    await waitForSocket(socketPath);
+
+    for (const argv of [
+      ["--stdin-filepath", "app/views/x.html.erb"],
+      ["--stdin-filepath=app/views/x.html.erb"],
+    ]) {
+      await expect(runClient(socketPath, argv, "<p>x</p>")).resolves.toEqual({
+        code: 0,
+        stdout: "<p>x</p>",
+        stderr: "",
+      });
+    }
+
+    await expect(stopDaemon(socketPath)).resolves.toBe(true);
+    await expect(daemon).resolves.toBe(0);
+  });
+
+  it("creates the default socket in a private per-user directory", async () => {
+    const { dir } = createSocketPath();
+    const previousRuntimeDir = process.env.XDG_RUNTIME_DIR;
+    const previousOverride = process.env[DAEMON_SOCKET_ENV];
+    process.env.XDG_RUNTIME_DIR = dir;
+    delete process.env[DAEMON_SOCKET_ENV];
+    let socketPath: string;
+    try {
+      socketPath = resolveSocketPath();
+    } finally {
+      if (previousRuntimeDir === undefined) delete process.env.XDG_RUNTIME_DIR;
+      else process.env.XDG_RUNTIME_DIR = previousRuntimeDir;
+      if (previousOverride !== undefined) {
+        process.env[DAEMON_SOCKET_ENV] = previousOverride;
+      }
+    }
+    expect(path.dirname(socketPath)).toBe(path.join(dir, "erb-fmt"));
+
+    const daemon = runDaemon({
+      socketPath,
+      idleTimeoutMs: 60_000,
+      run: async () => 0,
+    });
+    await waitForSocket(socketPath);
+    const mode = fs.statSync(path.dirname(socketPath)).mode & 0o777;
+    expect(mode.toString(8)).toBe("700");
+
+    await expect(stopDaemon(socketPath)).resolves.toBe(true);
+    await expect(daemon).resolves.toBe(0);
+  });
+
+  it("refuses sockets in directories other users can write to", async () => {
+    const { dir, socketPath } = createSocketPath();
+    fs.chmodSync(dir, 0o777);
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      await expect(
+        runDaemon({ socketPath, idleTimeoutMs: 60_000, run: async () => 0 }),
+      ).resolves.toBe(2);
+      expect(errorSpy).toHaveBeenCalledWith(
+        `error: erb-fmt daemon failed: ${dir} is writable by other users`,
+      );
+    } finally {
+      errorSpy.mockRestore();
+    }
+    expect(fs.existsSync(socketPath)).toBe(false);
+
+    await expect(runClient(socketPath, ["--check"])).resolves.toEqual({
+      code: null,
+      stdout: "",
+      stderr: `warning: not using the erb-fmt daemon: ${dir} is writable by other users\n`,
+    });
+    await expect(stopDaemon(socketPath)).resolves.toBe(false);
+  });
+
+  it("accepts --use-daemon and --stop-daemon when run through runCli", async () => {
+    const { socketPath } = createSocketPath();
+    const calls: string[][] = [];
+    const daemon = runDaemon({
+      socketPath,
+      idleTimeoutMs: 60_000,
+      run: async (argv) => {
+        calls.push(argv);
+        return 3;
+      },
+    });
+    await waitForSocket(socketPath);
+
+    const previousOverride = process.env[DAEMON_SOCKET_ENV];
+    process.env[DAEMON_SOCKET_ENV] = socketPath;
+    const stderrSpy = vi
+      .spyOn(process.stderr, "write")
+      .mockImplementation(() => true);
+    try {
+      await expect(
+        runCli(["--use-daemon", "--check", "show.html.erb"]),
+      ).resolves.toBe(3);
+      expect(calls).toEqual([["--no-color", "--check", "show.html.erb"]]);
+
+      await expect(runCli(["--stop-daemon"])).resolves.toBe(0);
+      await expect(daemon).resolves.toBe(0);
+
+      await expect(runCli(["--stop-daemon"])).resolves.toBe(0);
+      expect(stderrSpy).toHaveBeenCalledWith(
+        "notice: no erb-fmt daemon is running\n",
+      );
+    } finally {
+      stderrSpy.mockRestore();
+      if (previousOverride === undefined) delete process.env[DAEMON_SOCKET_ENV];
+      else process.env[DAEMON_SOCKET_ENV] = previousOverride;
+    }
+  });
+
+  it("shuts down when idle and replaces stale sockets", async () => {
+    const { socketPath } = createSocketPath();
+    fs.writeFileSync(socketPath, "");
+
+    const daemon = runDaemon({
+      socketPath,
+      idleTimeoutMs: 100,
+      run: async () => 0,
+    });
+    await waitForSocket(socketPath);
+    await expect(runClient(socketPath, ["--check"])).resolves.toMatchObject({
+      code: 0,
+    });
+
+    await expect(daemon).resolves.toBe(0);
+    await expect(runClient(socketPath, ["--check"])).resolves.toMatchObject({
+      code: null,
+    });
+  });
+});
+
+function collect() {
+  const stream = new PassThrough();
+  const chunks: string[] = [];
+  stream.on("data", (chunk: Buffer) => chunks.push(chunk.toString("utf8")));
+  return { stream, text: () => chunks.join("") };
+}
+
+async function waitForSocket(socketPath: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    try {
+      if (fs.statSync(socketPath).isSocket()) return;
+    } catch {
+      // not created yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`daemon did not listen on ${socketPath}`);
+}
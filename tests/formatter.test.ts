@@ -2,6 +2,7 @@ import fs from "fs";
 import { describe, it, expect } from "vitest";
 import type { FormatSegment } from "../src/formatter/index.js";
 import { formatERB, DEFAULT_FORMATTER_CONFIG } from "../src/formatter/index.js";
+import { applyTextEdits } from "../src/formatter/textEdits.js";
 import type { ERBRegion, RubyRegion } from "../src/parser.js";
 import { parseERB } from "../src/parser.js";
 
@@ -313,11 +314,28 @@ describe("formatERB", () => {
     const snippet = `<div><span class="label">Hi<% if condition %></div>`;
     const result = formatERB(parseERB(snippet));
 
-    expect(result.output).toBe(`<div>
-  <span class="label">Hi<% if condition %></span>
+    expect(result.output).toBe(`${snippet}\n`);
+    expect(result.diagnostics).toMatchObject([
+      {
+        severity: "error",
+        code: "html-parse-error",
+        message: "Unclosed <span> inside <div>",
+      },
+      {
+        index: 1,
+        severity: "error",
+        code: "ruby-unclosed-block",
+        message: "`if` block is never closed with `end`",
+      },
+    ]);
+
+    const skipped = formatERB(parseERB(snippet), {
+      html: { onParseError: "skip-subtree" },
+    });
+    expect(skipped.output).toBe(`<div>
+  <span class="label">Hi<% if condition %>
 </div>
 `);
-    expect(result.diagnostics).toEqual([]);
   });
 
   it("preserves original markup when HTML parsing fails", () => {
@@ -329,11 +347,176 @@ describe("formatERB", () => {
       {
         index: -1,
         severity: "error",
-        message: "HTML parse reported syntax errors in placeholder document",
+        code: "html-parse-error",
+        message:
+          "Malformed attributes in <div> (check for unbalanced quotes) at the top level",
+        range: expect.objectContaining({ startIndex: 26, endIndex: 57 }),
+        location: { line: 1, column: 27, endLine: 1, endColumn: 58 },
+        snippet: snippet,
       },
     ]);
   });
 
+  it("maps parse error locations back through ruby placeholders", () => {
+    const snippet = `<section>
+  <%= render "header", title: @title %>
+</section>
+<p class="lead>Intro
+`;
+    const result = formatERB(parseERB(snippet));
+
+    expect(result.diagnostics).toHaveLength(1);
+    const [diagnostic] = result.diagnostics;
+    expect(diagnostic.code).toBe("html-parse-error");
+    expect(diagnostic.location).toMatchObject({ line: 4, column: 1 });
+    expect(diagnostic.snippet).toBe(`<p class="lead>Intro`);
+    expect(snippet.slice(diagnostic.range?.startIndex)).toMatch(/^<p class/);
+  });
+
+  it("reports each parse error with a hint and its enclosing tag", () => {
+    const snippet = `<ul>
+  <<%= tag_name %> class="item">Item</<%= tag_name %>>
+</ul>
+<p class="lead>Intro
+`;
+    const result = formatERB(parseERB(snippet));
+
+    expect(
+      result.diagnostics.map((diagnostic) => [
+        diagnostic.code,
+        diagnostic.location?.line,
+        diagnostic.location?.column,
+        diagnostic.message,
+      ]),
+    ).toEqual([
+      [
+        "html-parse-error",
+        2,
+        3,
+        "ERB tag <%= tag_name %> used as an HTML tag name; dynamic tag names cannot be parsed inside <ul>",
+      ],
+      [
+        "html-parse-error",
+        4,
+        1,
+        "Malformed start tag <p> (check for an unterminated attribute quote) at the top level",
+      ],
+    ]);
+
+    const unclosed = formatERB(parseERB(`<main>\n  <section><div>Body`));
+    expect(
+      unclosed.diagnostics.map((diagnostic) => diagnostic.message),
+    ).toEqual(["Unclosed <main> at the top level"]);
+
+    const stray = formatERB(parseERB(`<section>\n  <div></span>`));
+    expect(stray.diagnostics).toHaveLength(1);
+    expect(stray.diagnostics[0]).toMatchObject({
+      message: "Stray </span> has no matching open tag inside <div>",
+      location: { line: 2, column: 8 },
+    });
+  });
+
+  it("reports stray end tags and unclosed elements that parse without errors", () => {
+    const snippet = `<main>
+  <div><span>Hi</span></span></div>
+  <section><div>Body</section>
+</main>
+`;
+    const result = formatERB(parseERB(snippet));
+
+    expect(result.output).toBe(snippet);
+    expect(
+      result.diagnostics.map((diagnostic) => [
+        diagnostic.code,
+        diagnostic.location?.line,
+        diagnostic.location?.column,
+        diagnostic.message,
+      ]),
+    ).toEqual([
+      [
+        "html-parse-error",
+        2,
+        23,
+        "Stray </span> has no matching open tag inside <div>",
+      ],
+      ["html-parse-error", 3, 12, "Unclosed <div> inside <section>"],
+    ]);
+  });
+
+  it("formats around broken elements when html.onParseError is skip-subtree", () => {
+    const snippet = `<main>
+<nav><a href="/">Home</a></nav>
+<section>
+<div class="card" data-x="1" / y>
+<p>Hi <%= user.name %></p>
+</div>
+<article><h2>Title</h2></article>
+</section>
+</main>
+`;
+
+    expect(formatERB(parseERB(snippet)).output).toBe(snippet);
+
+    const result = formatERB(parseERB(snippet), {
+      html: { onParseError: "skip-subtree" },
+    });
+
+    expect(result.output).toBe(`<main>
+  <nav>
+    <a href="/">Home</a>
+  </nav>
+  <section>
+    <div class="card" data-x="1" / y>
+<p>Hi <%= user.name %></p>
+</div>
+    <article>
+      <h2>Title</h2>
+    </article>
+  </section>
+</main>
+`);
+    expect(
+      result.diagnostics.map((diagnostic) => [
+        diagnostic.severity,
+        diagnostic.code,
+        diagnostic.location?.line,
+      ]),
+    ).toEqual([
+      ["warning", "html-parse-error", 4],
+      ["warning", "html-subtree-skipped", 4],
+    ]);
+    expect(result.diagnostics[1]).toMatchObject({
+      message: "<div> left unformatted because it contains HTML parse errors",
+      location: { line: 4, column: 1, endLine: 6, endColumn: 7 },
+    });
+  });
+
+  it("copies unclosed elements through without implied end tags", () => {
+    const snippet = `<div><section><p>ok</p><span>bad</div></section>\n<p>after</p>\n`;
+    const config = { html: { onParseError: "skip-subtree" as const } };
+    const result = formatERB(parseERB(snippet), config);
+
+    expect(result.output).toBe(`<div>
+  <section>
+    <p>ok</p>
+    <span>bad
+</div>
+</section>
+<p>after</p>
+`);
+    expect(formatERB(parseERB(result.output), config).output).toBe(
+      result.output,
+    );
+    expect(
+      result.diagnostics.filter(
+        (diagnostic) => diagnostic.code === "html-subtree-skipped",
+      )[0],
+    ).toMatchObject({
+      message: "<span> left unformatted because it contains HTML parse errors",
+      location: { line: 1, column: 24, endLine: 1, endColumn: 33 },
+    });
+  });
+
   it("normalizes spacing inside ruby directives", () => {
     const snippet = `<div>
 <%   if  condition   %>
@@ -350,6 +533,133 @@ describe("formatERB", () => {
 `);
   });
 
+  it("wraps long output directives at their column in the template", () => {
+    const snippet = `<section>
+<div>
+<p>Actions</p>
+<%= link_to "Edit", edit_post_path(@post), class:"btn", data: {turbo:false} %>
+<%= link_to "Back", posts_path %>
+</div>
+</section>`;
+    const config = { ruby: { lineWidth: 60 } };
+    const result = formatERB(parseERB(snippet), config);
+
+    expect(result.output).toBe(`<section>
+  <div>
+    <p>Actions</p>
+    <%=
+      link_to "Edit",
+        edit_post_path(@post),
+        class: "btn",
+        data: { turbo: false }
+    %>
+    <%= link_to "Back", posts_path %>
+  </div>
+</section>
+`);
+    expect(formatERB(parseERB(result.output), config).output).toBe(
+      result.output,
+    );
+  });
+
+  it("keeps block parameters and modifiers intact when wrapping directives", () => {
+    const snippet = `<section>
+<p>Form</p>
+<%= form_with model: @user, url: users_path(@user), class: "form-horizontal wide", data: {x: 1} do |form, other| %>
+<%= form.text_field :name %>
+<% end %>
+<%= link_to "Edit profile", edit_user_path(@user), class: "a" if current_user.admin? && current_user.active? %>
+</section>`;
+    const result = formatERB(parseERB(snippet));
+
+    expect(result.output).toBe(`<section>
+  <p>Form</p>
+  <%=
+    form_with model: @user,
+      url: users_path(@user),
+      class: "form-horizontal wide",
+      data: { x: 1 } do |form, other|
+  %>
+    <%= form.text_field :name %>
+  <% end %>
+  <%= link_to "Edit profile", edit_user_path(@user), class: "a" if current_user.admin? && current_user.active? %>
+</section>
+`);
+    expect(formatERB(parseERB(result.output)).output).toBe(result.output);
+  });
+
+  it("keeps heredoc bodies at their source columns with the AST printer", () => {
+    const snippet = `<div><p>x</p><%\ntext = <<~TXT\n  hello\nTXT\n%></div>`;
+    const config = { ruby: { format: "ast" as const } };
+    const result = formatERB(parseERB(snippet), config);
+
+    expect(result.output).toBe(`<div>
+  <p>x</p>
+  <%
+    text = <<~TXT
+  hello
+TXT
+  %>
+</div>
+`);
+    expect(formatERB(parseERB(result.output), config).output).toBe(
+      result.output,
+    );
+  });
+
+  it("leaves regex literals in output directives as written", () => {
+    const snippet = `<div>
+<p>Checks</p>
+<%= v =~ /\\d{3}/ %>
+<%= s.gsub(/a foo:bar/, "") %>
+</div>`;
+    const result = formatERB(parseERB(snippet));
+
+    expect(result.output).toBe(`<div>
+  <p>Checks</p>
+  <%= v =~ /\\d{3}/ %>
+  <%= s.gsub(/a foo:bar/, "") %>
+</div>
+`);
+  });
+
+  it("returns minimal text edits that reproduce the output", () => {
+    const snippet = `<ul>
+  <li>One</li>
+<%   if  admin?   %>
+      <li>Admin</li>
+<% end %>
+</ul>
+`;
+    const result = formatERB(parseERB(snippet));
+
+    expect(result.edits).toEqual([
+      {
+        range: {
+          start: { line: 2, character: 0 },
+          end: { line: 2, character: 17 },
+        },
+        newText: "  <% if admin?",
+      },
+      {
+        range: {
+          start: { line: 3, character: 4 },
+          end: { line: 3, character: 6 },
+        },
+        newText: "",
+      },
+      {
+        range: {
+          start: { line: 4, character: 0 },
+          end: { line: 4, character: 0 },
+        },
+        newText: "  ",
+      },
+    ]);
+    expect(applyTextEdits(snippet, result.edits)).toBe(result.output);
+    expect(formatERB(parseERB(result.output)).edits).toEqual([]);
+  });
+
   it("cleans up mixed indentation in HTML content", () => {
     const snippet = `<ul>
 \t<li class="item">Item 1</li>
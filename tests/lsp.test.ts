@@ -0,0 +1,218 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { pathToFileURL } from "url";
+import { afterEach, describe, expect, it } from "vitest";
+import { applyTextEdits, type TextEdit } from "../src/formatter/textEdits.js";
+import { runLanguageServer } from "../src/lsp/server.js";
+import type { JsonRpcMessage } from "../src/lsp/transport.js";
+
+const TMP_PREFIX = "erb-lsp-test-";
+
+/** A response from the server, with `result` typed for the method called. */
+interface LspResponse<Result> extends JsonRpcMessage {
+  result?: Result;
+}
+
+describe("runLanguageServer", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    tempDirs.splice(0).forEach((dir) => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  it("formats documents and publishes diagnostics over stdio", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), TMP_PREFIX));
+    tempDirs.push(dir);
+    fs.writeFileSync(
+      path.join(dir, ".erb-fmtrc"),
+      JSON.stringify({ indentation: { size: 4 } }),
+    );
+    const uri = pathToFileURL(path.join(dir, "show.html.erb")).href;
+    const source = `<div>\n<% if admin? %>\n<p>Hi</p>\n<% end %>\n</div>\n`;
+    const client = startClient();
+
+    await client.request("initialize", { capabilities: {} });
+    client.notify("textDocument/didOpen", {
+      textDocument: { uri, languageId: "erb", version: 1, text: source },
+    });
+    const formatting = await client.request<TextEdit[]>(
+      "textDocument/formatting",
+      {
+        textDocument: { uri },
+        options: { tabSize: 2, insertSpaces: true },
+      },
+    );
+
+    expect(applyTextEdits(source, formatting.result ?? [])).toBe(
+      `<div>\n    <% if admin? %>\n        <p>Hi</p>\n    <% end %>\n</div>\n`,
+    );
+    expect(client.notifications("textDocument/publishDiagnostics")).toEqual([
+      { uri, version: 1, diagnostics: [] },
+    ]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [
+        {
+          range: {
+            start: { line: 2, character: 3 },
+            end: { line: 2, character: 5 },
+          },
+          text: "Hi</div",
+        },
+      ],
+    });
+    const published = await client.waitFor(
+      (message) =>
+        message.method === "textDocument/publishDiagnostics" &&
+        (message.params as { version: number }).version === 2,
+    );
+    expect(published.params).toMatchObject({
+      diagnostics: [
+        {
+          range: { start: { line: 2, character: 7 } },
+          message: expect.stringContaining("Malformed start tag <div>"),
+          severity: 1,
+          code: "html-parse-error",
+          source: "erb-fmt",
+        },
+        {
+          range: { start: { line: 2, character: 10 } },
+          message: "Stray </p> has no matching open tag inside <div>",
+        },
+        {
+          range: { start: { line: 4, character: 0 } },
+          message: "Stray </div> has no matching open tag inside <div>",
+        },
+      ],
+    });
+
+    await client.request("shutdown");
+    client.notify("exit");
+    await expect(client.exitCode).resolves.toBe(0);
+  });
+
+  it("formats a range and the directive closed by %>", async () => {
+    const uri = "untitled:Untitled-1";
+    const source = `<ul>\n<li>One</li>\n<li><%=   name   %></li>\n</ul>\n`;
+    const client = startClient();
+
+    await client.request("initialize", { capabilities: {} });
+    client.notify("textDocument/didOpen", {
+      textDocument: { uri, languageId: "erb", version: 1, text: source },
+    });
+
+    const onType = await client.request<TextEdit[]>(
+      "textDocument/onTypeFormatting",
+      {
+        textDocument: { uri },
+        position: { line: 2, character: 19 },
+        ch: ">",
+        options: { tabSize: 2, insertSpaces: true },
+      },
+    );
+    expect(applyTextEdits(source, onType.result ?? [])).toBe(
+      `<ul>\n<li>One</li>\n  <li><%= name %></li>\n</ul>\n`,
+    );
+
+    const range = await client.request<TextEdit[]>(
+      "textDocument/rangeFormatting",
+      {
+        textDocument: { uri },
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 3, character: 5 },
+        },
+        options: { tabSize: 4, insertSpaces: true },
+      },
+    );
+    expect(applyTextEdits(source, range.result ?? [])).toBe(
+      `<ul>\n    <li>One</li>\n    <li><%= name %></li>\n</ul>\n`,
+    );
+
+    const missing = await client.request("textDocument/formatting", {
+      textDocument: { uri: "untitled:Other" },
+      options: { tabSize: 2, insertSpaces: true },
+    });
+    expect(missing.error).toMatchObject({
+      message: "document untitled:Other is not open",
+    });
+
+    client.notify("exit");
+    await expect(client.exitCode).resolves.toBe(1);
+  });
+});
+
+function startClient() {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const received: JsonRpcMessage[] = [];
+  const waiters: Array<{
+    match: (message: JsonRpcMessage) => boolean;
+    resolve: (message: JsonRpcMessage) => void;
+  }> = [];
+  let buffered = "";
+  let nextId = 1;
+
+  output.on("data", (chunk: Buffer) => {
+    buffered += chunk.toString("utf8");
+    for (;;) {
+      const match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffered);
+      if (!match) return;
+      const bodyStart = match[0].length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffered.length < bodyEnd) return;
+      const message = JSON.parse(
+        buffered.slice(bodyStart, bodyEnd),
+      ) as JsonRpcMessage;
+      buffered = buffered.slice(bodyEnd);
+      received.push(message);
+      waiters
+        .filter((waiter) => waiter.match(message))
+        .forEach((waiter) => {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          waiter.resolve(message);
+        });
+    }
+  });
+
+  const write = (message: Omit<JsonRpcMessage, "jsonrpc">) => {
+    const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+    input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+  };
+  const waitFor = (match: (message: JsonRpcMessage) => boolean) => {
+    const existing = received.find(match);
+    if (existing) return Promise.resolve(existing);
+    return new Promise<JsonRpcMessage>((resolve) => {
+      waiters.push({ match, resolve });
+    });
+  };
+
+  return {
+    exitCode: runLanguageServer(input, output),
+    request<Result = unknown>(
+      method: string,
+      params?: unknown,
+    ): Promise<LspResponse<Result>> {
+      const id = nextId;
+      nextId += 1;
+      write({ id, method, params });
+      return waitFor((message) => message.id === id) as Promise<
+        LspResponse<Result>
+      >;
+    },
+    notify(method: string, params?: unknown) {
+      write({ method, params });
+    },
+    notifications(method: string) {
+      return received
+        .filter((message) => message.method === method)
+        .map((message) => message.params);
+    },
+    waitFor,
+  };
+}
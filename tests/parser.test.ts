@@ -1,7 +1,8 @@
 import fs from "fs";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+import { formatERB } from "../src/formatter/index.js";
 import type { ERBRegion } from "../src/parser.js";
-import { parseERB } from "../src/parser.js";
+import { ERBDocument, createParserSession, parseERB } from "../src/parser.js";
 
 describe("ERB parser", () => {
   it("extracts ruby and html regions with boundaries", () => {
@@ -273,6 +274,112 @@ describe("ERB parser", () => {
   });
 });
 
+describe("ERBDocument", () => {
+  it("reparses edits incrementally and keeps unchanged region trees", () => {
+    const items = Array.from(
+      { length: 40 },
+      (_, index) =>
+        `  <li><%= link_to item_${index}.name, item_${index} %></li>`,
+    );
+    const document = new ERBDocument(
+      `<% if items.any? %>\n<ul>\n${items.join("\n")}\n</ul>\n<% end %>\n`,
+    );
+    const matchesFreshParse = () => {
+      const fresh = parseERB(document.text);
+      const describe = (region: ERBRegion) => ({
+        ...serializeRegion(region),
+        tree:
+          region.type === "unknown" ? null : region.tree?.rootNode.toString(),
+      });
+      expect(document.parsed.regions.map(describe)).toEqual(
+        fresh.regions.map(describe),
+      );
+      expect(document.parsed.tree.rootNode.toString()).toBe(
+        fresh.tree.rootNode.toString(),
+      );
+      expect(formatERB(document.parsed).output).toBe(formatERB(fresh).output);
+    };
+    const rubyTrees = () =>
+      document.parsed.regions.flatMap((region) =>
+        region.type === "ruby" ? [region.tree] : [],
+      );
+
+    let before = rubyTrees();
+    // Add a class to the <li> on line 12.
+    document.applyEdit(
+      { start: { line: 12, character: 5 }, end: { line: 12, character: 5 } },
+      ' class="active"',
+    );
+    matchesFreshParse();
+    expect(rubyTrees()).toHaveLength(before.length);
+    rubyTrees().forEach((tree, index) => expect(tree).toBe(before[index]));
+
+    before = rubyTrees();
+    // Rename `item_3` in its directive.
+    document.applyEdit(
+      { start: { line: 5, character: 31 }, end: { line: 5, character: 37 } },
+      "entry",
+    );
+    matchesFreshParse();
+    const changed = rubyTrees().filter((tree, index) => tree !== before[index]);
+    expect(changed).toHaveLength(1);
+    expect(changed[0]?.rootNode.text).toBe("link_to item_3.name, entry\n");
+
+    // Split the list with a new multi-line directive and delete the last line.
+    document.applyEdit(
+      { start: { line: 20, character: 0 }, end: { line: 20, character: 0 } },
+      "<% if admin? %>\n  <li>Admin 😀</li>\n<% end %>\n",
+    );
+    matchesFreshParse();
+    document.applyEdit(
+      { start: { line: 44, character: 0 }, end: { line: 46, character: 0 } },
+      "",
+    );
+    matchesFreshParse();
+
+    document.dispose();
+  });
+});
+
+describe("createParserSession", () => {
+  it("reuses parsers and frees trees on release and dispose", () => {
+    const session = createParserSession();
+    const source = "<% if a %>\n<p>x</p>\n<% end %>\n<% if b %><% end %>\n";
+    const first = session.parse(source);
+    const second = session.parse("<p><%= x %></p>\n");
+    const treesOf = (parsed: typeof first) =>
+      new Set([
+        parsed.tree,
+        ...parsed.regions.flatMap((region) =>
+          region.type === "unknown" || !region.tree ? [] : [region.tree],
+        ),
+      ]);
+
+    const ends = first.regions.filter(
+      (region) => region.type === "ruby" && region.code === "end",
+    );
+    expect(ends).toHaveLength(2);
+    expect(ends[0].type === "ruby" && ends[0].tree).toBe(
+      ends[1].type === "ruby" && ends[1].tree,
+    );
+    expect(formatERB(first).output).toBe(formatERB(parseERB(source)).output);
+
+    const deleteTree = vi.spyOn(Object.getPrototypeOf(first.tree), "delete");
+    session.release(first);
+    expect(deleteTree).toHaveBeenCalledTimes(treesOf(first).size);
+    session.release(first);
+    expect(deleteTree).toHaveBeenCalledTimes(treesOf(first).size);
+
+    const expected = treesOf(first).size + treesOf(second).size;
+    session.dispose();
+    expect(deleteTree).toHaveBeenCalledTimes(expected);
+    expect(() => session.parse("<p></p>")).toThrow(
+      "Parser session has been disposed.",
+    );
+    deleteTree.mockRestore();
+  });
+});
+
 function serializeRegion(region: ERBRegion) {
   if (region.type === "html") {
     return {
@@ -320,3 +427,60 @@ function squash(text: string) {
   const squashed = text.replace(/\s+/g, " ").trim();
   return squashed;
 }
+
+describe("computeRubyBlockDepth", () => {
+  it("tracks block depth across directives", () => {
+    const source = [
+      "<% if user %>",
+      "<%= form_with model: user do |f| %>",
+      "<% users.each { |u| %><% } %>",
+      "<% end %>",
+      "<% elsif guest %>",
+      "<% case role; when :admin %>",
+      "<% x = if a then 1 else 2 end %>",
+      "<% end %>",
+      "<% else %>",
+      "<% end %>",
+    ].join("\n");
+    const parsed = parseERB(source);
+    const ruby = parsed.regions.flatMap((region, index) =>
+      region.type === "ruby"
+        ? [{ code: region.code, ...parsed.rubyBlocks.depths[index] }]
+        : [],
+    );
+
+    expect(ruby.map(({ code, depth, after }) => [code, depth, after])).toEqual([
+      ["if user", 0, 1],
+      ["form_with model: user do |f|", 1, 2],
+      ["users.each { |u|", 2, 3],
+      ["}", 2, 2],
+      ["end", 1, 1],
+      ["elsif guest", 0, 1],
+      ["case role; when :admin", 1, 2],
+      ["x = if a then 1 else 2 end", 2, 2],
+      ["end", 1, 1],
+      ["else", 0, 1],
+      ["end", 0, 0],
+    ]);
+    expect(ruby[5]).toMatchObject({ closes: 1, opens: 1 });
+    expect(parsed.rubyBlocks.issues).toEqual([]);
+  });
+
+  it("reports stray closers and blocks left open", () => {
+    const parsed = parseERB(
+      "<% end %>\n<% items.each do |item| %>\n<p><% if item %></p>\n",
+    );
+
+    expect(
+      parsed.rubyBlocks.issues.map(({ kind, regionIndex, keyword }) => ({
+        kind,
+        code: (parsed.regions[regionIndex] as { code: string }).code,
+        keyword,
+      })),
+    ).toEqual([
+      { kind: "unexpected-closer", code: "end", keyword: "end" },
+      { kind: "unclosed-block", code: "items.each do |item|", keyword: "do" },
+      { kind: "unclosed-block", code: "if item", keyword: "if" },
+    ]);
+  });
+});
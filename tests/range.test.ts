@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { formatERB } from "../src/formatter/index.js";
+import { formatERBRange } from "../src/formatter/range.js";
+import { parseERB } from "../src/parser.js";
+
+const source = `<main>
+<section>
+<% if user %>
+<div class="card">
+<p>Hi   <%= user.name %></p>
+</div>
+<% else %>
+<p>Guest</p>
+<% end %>
+</section>
+<footer><p>Bye</p></footer>
+</main>
+`;
+
+function rangeOf(needle: string, length = needle.length) {
+  const start = source.indexOf(needle);
+  return { start, end: start + length };
+}
+
+describe("formatERBRange", () => {
+  it("formats only the complete element under the selection", () => {
+    const result = formatERBRange(source, rangeOf("Hi", 0));
+
+    expect(source.slice(result.range.start, result.range.end)).toBe(
+      "<p>Hi   <%= user.name %></p>",
+    );
+    expect(result.edits).toEqual([
+      {
+        range: {
+          start: { line: 4, character: 0 },
+          end: { line: 4, character: 7 },
+        },
+        newText: "        <p>Hi",
+      },
+    ]);
+    expect(result.output).toBe(
+      source.replace("<p>Hi   <%=", "        <p>Hi <%="),
+    );
+  });
+
+  it("expands to the balanced Ruby block around a selected branch", () => {
+    const result = formatERBRange(source, rangeOf("<% else %>"));
+
+    expect(source.slice(result.range.start, result.range.end)).toBe(
+      source.slice(
+        source.indexOf("<% if user %>"),
+        source.indexOf("\n</section>"),
+      ),
+    );
+    expect(result.output).toContain(`<section>
+    <% if user %>
+      <div class="card">
+        <p>Hi <%= user.name %></p>
+      </div>
+    <% else %>
+      <p>Guest</p>
+    <% end %>
+</section>
+<footer><p>Bye</p></footer>`);
+  });
+
+  it("indents the selection to its depth in the enclosing markup", () => {
+    const indented = `<ul>\n    <li><span>One</span>\n    </li>\n  <li>Two</li>\n</ul>\n`;
+    const start = indented.indexOf("<li>");
+    const result = formatERBRange(indented, { start, end: start + 4 });
+
+    expect(result.output).toBe(
+      `<ul>\n  <li>\n    <span>One</span>\n  </li>\n  <li>Two</li>\n</ul>\n`,
+    );
+  });
+
+  it("matches whole-document formatting for a misindented child", () => {
+    const misindented = `<div>\n  <section>\n     <p>Hi</p>\n    <% if admin? %>\n <p>Admin</p>\n    <% end %>\n  </section>\n</div>\n`;
+    const whole = formatERB(parseERB(misindented)).output;
+    expect(whole).toContain("\n    <p>Hi</p>\n");
+
+    let output = misindented;
+    for (const needle of ["<p>Hi", "<p>Admin"]) {
+      const start = output.indexOf(needle);
+      output = formatERBRange(output, { start, end: start }).output;
+    }
+    expect(output).toBe(whole);
+  });
+
+  it("returns no edits when the span is already formatted", () => {
+    const result = formatERBRange(source, rangeOf("<footer>"));
+    expect(result.edits).toHaveLength(1);
+
+    const footer = result.output.indexOf("<footer>");
+    const formatted = formatERBRange(result.output, {
+      start: footer,
+      end: footer,
+    });
+    expect(formatted.edits).toEqual([]);
+    expect(formatted.output).toBe(result.output);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { formatERB } from "../src/formatter/index.js";
+import { validateRubyBlocks } from "../src/formatter/rubyBlocks.js";
+import { parseERB } from "../src/parser.js";
+
+describe("validateRubyBlocks", () => {
+  it("accepts blocks that pair up across directives", () => {
+    const parsed = parseERB(
+      [
+        "<%= form_with model: @user do |f| %>",
+        "  <% if @user.admin? %>",
+        "    <%= f.check_box :admin %>",
+        "  <% else %>",
+        "    <% @roles.each do |role| %><%= role %><% end %>",
+        "  <% end %>",
+        "<% end %>",
+        "",
+      ].join("\n"),
+    );
+
+    expect(validateRubyBlocks(parsed)).toEqual([]);
+  });
+
+  it("reports a missing end at the opener and the end of the template", () => {
+    const parsed = parseERB(
+      "<% if user %>\n  <% users.each do |u| %>\n    <%= u %>\n<% end %>\n",
+    );
+
+    expect(validateRubyBlocks(parsed)).toMatchObject([
+      {
+        index: 0,
+        severity: "error",
+        code: "ruby-unclosed-block",
+        message: "`if` block is never closed with `end`",
+        location: { line: 1, column: 1, endLine: 1, endColumn: 14 },
+        related: [
+          {
+            message: "the template ends here without closing it",
+            location: { line: 5, column: 1 },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports an extra end with the opener of the block closed before it", () => {
+    const parsed = parseERB(
+      "<% if user %>\n  <p>Hi</p>\n<% end %>\n<% end %>\n",
+    );
+    const diagnostics = validateRubyBlocks(parsed);
+
+    expect(diagnostics).toMatchObject([
+      {
+        severity: "error",
+        code: "ruby-unexpected-closer",
+        message: "`end` has no open Ruby block to close",
+        location: { line: 4, column: 1 },
+        snippet: "<% end %>",
+        related: [
+          {
+            message: "the last block closed before it opens here",
+            location: { line: 1, column: 1 },
+          },
+        ],
+      },
+    ]);
+    expect(formatERB(parsed).diagnostics).toEqual(diagnostics);
+  });
+});
+
+describe("interleaved Ruby blocks and HTML elements", () => {
+  it("warns when a block's opener and closer sit in different elements", () => {
+    const source = [
+      "<section>",
+      "<% if open? %><div>",
+      "<p>Body</p>",
+      "<% end %>",
+      "</div>",
+      "</section>",
+      "",
+    ].join("\n");
+    const result = formatERB(parseERB(source));
+
+    expect(result.diagnostics).toMatchObject([
+      {
+        severity: "warning",
+        code: "ruby-block-crosses-element",
+        location: { line: 2, column: 1 },
+        related: [
+          {
+            message: "`<% end %>` closes the block here",
+            location: { line: 4, column: 1 },
+          },
+        ],
+      },
+    ]);
+    // Neither directive adds indentation for the block.
+    expect(result.output).toBe(
+      [
+        "<section>",
+        "  <% if open? %>",
+        "  <div>",
+        "    <p>Body</p>",
+        "    <% end %>",
+        "  </div>",
+        "</section>",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("accepts blocks that nest inside elements and attributes", () => {
+    const source = [
+      '<div class="<% if active %>active<% end %>">',
+      "<% items.each do |item| %>",
+      "<p><%= item %></p>",
+      "<% end %>",
+      "</div>",
+      "",
+    ].join("\n");
+
+    expect(formatERB(parseERB(source)).diagnostics).toEqual([]);
+  });
+});
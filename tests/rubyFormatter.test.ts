@@ -56,6 +56,89 @@ end
     );
   });
 
+  it("wraps calls without parentheses after their first argument", () => {
+    const config = cloneConfig();
+    config.indentation.continuation = 2;
+    config.ruby.lineWidth = 40;
+    const input = `f.text_field :email, class: "input", placeholder: "you@example.com"`;
+
+    const formatted = formatRubyCode(input, config);
+    expect(formatted).toBe(
+      [
+        "f.text_field :email,",
+        '  class: "input",',
+        '  placeholder: "you@example.com"',
+      ].join("\n"),
+    );
+    expect(formatRubyCode(formatted, config)).toBe(formatted);
+  });
+
+  it("spaces hash braces and keyword arguments of wrapped calls outside literals", () => {
+    const config = cloneConfig();
+    config.ruby.lineWidth = 40;
+    const input = `button_to "Save,  it", data:{turbo:false}, params: {}, form: {:class=>%w{a b}}, title: "{x}"`;
+
+    expect(formatRubyCode(input, config)).toBe(
+      [
+        'button_to "Save,  it",',
+        "  data: { turbo: false },",
+        "  params: {},",
+        "  form: { :class => %w{a b} },",
+        '  title: "{x}"',
+      ].join("\n"),
+    );
+  });
+
+  it("leaves the spacing of lines that are not wrapped as written", () => {
+    const config = cloneConfig();
+    [
+      "a ?b :c",
+      "f(x ? y:z)",
+      "h = {a: 1, :b=>2}",
+      "x = %i[a:b c]",
+      "y = %w[k:v {x}]",
+    ].forEach((input) => {
+      expect(formatRubyCode(input, config)).toBe(input);
+    });
+
+    config.ruby.lineWidth = 30;
+    expect(formatRubyCode("tag.span x ? y:z, %i[a:b], id:1", config)).toBe(
+      ["tag.span x ? y:z,", "  %i[a:b],", "  id: 1"].join("\n"),
+    );
+  });
+
+  it("keeps block parameters and modifiers with the code they belong to", () => {
+    const config = cloneConfig();
+    config.ruby.lineWidth = 40;
+    const block = `form_with model: @user, url: users_path, data: {x: 1} do |form, other|`;
+
+    const formatted = formatRubyCode(block, config);
+    expect(formatted).toBe(
+      [
+        "form_with model: @user,",
+        "  url: users_path,",
+        "  data: { x: 1 } do |form, other|",
+      ].join("\n"),
+    );
+    expect(formatRubyCode(formatted, config)).toBe(formatted);
+
+    const modifier = `link_to "Edit", edit_user_path(@user), class: "a" if current_user.admin?`;
+    expect(formatRubyCode(modifier, config)).toBe(modifier);
+  });
+
+  it("does not space braces, labels, or commas inside regex literals", () => {
+    const config = cloneConfig();
+    expect(formatRubyCode("v =~ /\\d{3}/", config)).toBe("v =~ /\\d{3}/");
+    expect(formatRubyCode('s.gsub(/a foo:bar/, "")', config)).toBe(
+      's.gsub(/a foo:bar/, "")',
+    );
+
+    config.ruby.lineWidth = 20;
+    expect(formatRubyCode('s.split /,\\s*/, "limit:{2}", 2', config)).toBe(
+      ["s.split /,\\s*/,", '  "limit:{2}",', "  2"].join("\n"),
+    );
+  });
+
   it("leaves short expressions untouched", () => {
     const config = cloneConfig();
     const input = `if foo then bar end`;
@@ -85,3 +168,163 @@ end
     );
   });
 });
+
+describe('formatRubyCode with ruby.format "ast"', () => {
+  function astConfig() {
+    const config = cloneConfig();
+    config.ruby.format = "ast";
+    return config;
+  }
+
+  it("indents nested blocks, branches, and assigned conditionals", () => {
+    const config = astConfig();
+    const input = `
+items.each do |item|
+if item.active?
+render item
+elsif item.pending?
+   render "pending"
+else
+x = if item.archived?
+:archived
+else
+:hidden
+end
+end
+end
+`.trim();
+
+    expect(formatRubyCode(input, config)).toBe(
+      [
+        "items.each do |item|",
+        "  if item.active?",
+        "    render item",
+        "  elsif item.pending?",
+        '    render "pending"',
+        "  else",
+        "    x = if item.archived?",
+        "      :archived",
+        "    else",
+        "      :hidden",
+        "    end",
+        "  end",
+        "end",
+      ].join("\n"),
+    );
+  });
+
+  it("indents hashes, method chains, lambdas, and begin/rescue", () => {
+    const config = astConfig();
+    const input = `
+options = {
+a: 1,
+  b: {
+c: 2
+}
+}
+users.map do |user|
+user.name
+end
+.select { |name|   name.present? }
+handler = ->(a, b) {
+a+b
+}
+begin
+risky
+rescue Timeout::Error => e
+log e
+ensure
+done
+end
+`.trim();
+
+    expect(formatRubyCode(input, config)).toBe(
+      [
+        "options = {",
+        "  a: 1,",
+        "  b: {",
+        "    c: 2",
+        "  }",
+        "}",
+        "users.map do |user|",
+        "  user.name",
+        "end",
+        "  .select { |name| name.present? }",
+        "handler = ->(a, b) {",
+        "  a + b",
+        "}",
+        "begin",
+        "  risky",
+        "rescue Timeout::Error => e",
+        "  log e",
+        "ensure",
+        "  done",
+        "end",
+      ].join("\n"),
+    );
+  });
+
+  it("keeps heredoc bodies, strings, and comments verbatim", () => {
+    const config = astConfig();
+    const input = `
+if template
+body = <<~MARKDOWN
+  # Heading
+    Some   content
+MARKDOWN
+end # done   here
+`.trim();
+
+    expect(formatRubyCode(input, config)).toBe(
+      [
+        "if template",
+        "  body = <<~MARKDOWN",
+        "  # Heading",
+        "    Some   content",
+        "MARKDOWN",
+        "end # done   here",
+      ].join("\n"),
+    );
+  });
+
+  it("breaks long argument lists one argument per line", () => {
+    const config = astConfig();
+    config.ruby.lineWidth = 40;
+    const input = `render(partial: "users/card", locals: { user: current_user, admin: true }, cached: true)`;
+
+    const formatted = formatRubyCode(input, config);
+    expect(formatted).toBe(
+      [
+        "render(",
+        '  partial: "users/card",',
+        "  locals: { user: current_user, admin: true },",
+        "  cached: true",
+        ")",
+      ].join("\n"),
+    );
+    expect(formatRubyCode(formatted, config)).toBe(formatted);
+  });
+
+  it("breaks calls without parentheses after their first argument", () => {
+    const config = astConfig();
+    config.ruby.lineWidth = 40;
+    const input = `render partial: "users/card",locals: {user: current_user}, cached: true`;
+
+    const formatted = formatRubyCode(input, config);
+    expect(formatted).toBe(
+      [
+        'render partial: "users/card",',
+        "  locals: { user: current_user },",
+        "  cached: true",
+      ].join("\n"),
+    );
+    expect(formatRubyCode(formatted, config)).toBe(formatted);
+  });
+
+  it("falls back to the heuristics for code that does not parse alone", () => {
+    const config = astConfig();
+    expect(formatRubyCode("if  user", config)).toBe(
+      formatRubyCode("if  user", cloneConfig()),
+    );
+  });
+});